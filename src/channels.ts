@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { SseEventsSchema } from './definition';
+
+// Declared channels: each channel name maps to the schemas of the events it carries
+export type ChannelDefinitions = Record<string, SseEventsSchema>;
+
+// Data type of each event of a channel
+export type ChannelEvents<
+    TChannels extends ChannelDefinitions,
+    TChannel extends keyof TChannels
+> = {
+        [E in keyof TChannels[TChannel] & string]: z.infer<TChannels[TChannel][E]>;
+    };
+
+// An event travelling through a broker, already validated against its channel
+export interface ChannelMessage {
+    event: string;
+    data: unknown;
+    id?: string;
+}
+
+// Carries published events to the subscribers of a channel. Implement it on top of Redis, NATS, Postgres
+// LISTEN/NOTIFY etc. so events published on one instance reach the clients connected to every instance.
+export interface ChannelBroker {
+    publish(channel: string, message: ChannelMessage): void | Promise<void>;
+    // Returns a function that removes the listener
+    subscribe(channel: string, listener: (message: ChannelMessage) => void): () => void;
+}
+
+// Default broker, delivering events to the subscribers of this process only
+export class InMemoryChannelBroker implements ChannelBroker {
+    private listeners = new Map<string, Set<(message: ChannelMessage) => void>>();
+
+    publish(channel: string, message: ChannelMessage): void {
+        this.listeners.get(channel)?.forEach(listener => listener(message));
+    }
+
+    subscribe(channel: string, listener: (message: ChannelMessage) => void): () => void {
+        let channelListeners = this.listeners.get(channel);
+        if (!channelListeners) {
+            channelListeners = new Set();
+            this.listeners.set(channel, channelListeners);
+        }
+        channelListeners.add(listener);
+
+        return () => {
+            channelListeners.delete(listener);
+            if (channelListeners.size === 0) {
+                this.listeners.delete(channel);
+            }
+        };
+    }
+
+    // Number of subscribers of a channel in this process
+    listenerCount(channel: string): number {
+        return this.listeners.get(channel)?.size ?? 0;
+    }
+}
+
+// The parts of a handler's req/res that a channel subscription uses
+export interface ChannelSubscriberRequest {
+    onClose?: (callback: () => void) => void;
+}
+
+export interface ChannelSubscriberResponse {
+    startSSE(): void;
+    streamSSE(eventName: string, data: unknown, id?: string): void;
+}
+
+export interface ChannelsOptions {
+    broker?: ChannelBroker;
+}
+
+export interface Channels<TChannels extends ChannelDefinitions> {
+    // Streams the channel's events to the handler's response until the client disconnects.
+    // Returns a function that ends the subscription earlier.
+    subscribe<TChannel extends keyof TChannels & string>(
+        channel: TChannel,
+        req: ChannelSubscriberRequest,
+        res: ChannelSubscriberResponse
+    ): () => void;
+    // Validates the event against the channel's schema and sends it to every subscriber
+    publish<TChannel extends keyof TChannels & string, TEvent extends keyof ChannelEvents<TChannels, TChannel> & string>(
+        channel: TChannel,
+        event: TEvent,
+        data: ChannelEvents<TChannels, TChannel>[TEvent],
+        id?: string
+    ): Promise<void>;
+}
+
+// Creates typed channels on top of SSE, backed by an in-memory broker unless another one is passed
+export function createChannels<TChannels extends ChannelDefinitions>(
+    channels: TChannels,
+    options: ChannelsOptions = {}
+): Channels<TChannels> {
+    const broker = options.broker ?? new InMemoryChannelBroker();
+
+    const getEventSchema = (channel: string, event: string) => {
+        const channelEvents = channels[channel];
+        if (!channelEvents) {
+            throw new Error(`Channel "${channel}" is not declared`);
+        }
+        const schema = channelEvents[event];
+        if (!schema) {
+            throw new Error(`Event "${event}" is not declared for channel "${channel}"`);
+        }
+        return schema;
+    };
+
+    return {
+        subscribe(channel, req, res) {
+            if (!channels[channel]) {
+                throw new Error(`Channel "${channel}" is not declared`);
+            }
+
+            res.startSSE();
+            const unsubscribe = broker.subscribe(channel, message => {
+                res.streamSSE(message.event, message.data, message.id);
+            });
+            req.onClose?.(unsubscribe);
+            return unsubscribe;
+        },
+        async publish(channel, event, data, id) {
+            const result = getEventSchema(channel, event).safeParse(data);
+            if (!result.success) {
+                throw new Error(`Event "${event}" failed validation for channel "${channel}": ${result.error.message}`);
+            }
+            await broker.publish(channel, { event, data: result.data, id });
+        }
+    };
+}
@@ -1,6 +1,6 @@
 // Client-only exports - no server dependencies
-export { ApiClient, FetchHttpClientAdapter } from './client';
-export { CreateApiDefinition, CreateResponses } from './definition';
+export { ApiClient, FetchHttpClientAdapter, ApiCallError, TimeoutError, AbortError, ResponseValidationError, createTokenAuthInterceptor, saveResponseFile } from './client';
+export { CreateApiDefinition, CreateResponses, ResponseWithHeaders, Redirect, FileResponse, TextResponse, JsonLinesResponse } from './definition';
 export { z as ZodSchema } from 'zod';
 
 // Re-export types that are safe for client use
@@ -16,8 +16,22 @@ export type {
     ApiBody,
     ApiParams,
     ApiQuery,
+    ApiHeaders,
+    ApiCookies,
+    ApiClientHeaders,
+    ApiClientCookies,
+    ApiClientFiles,
+    ApiRoutePathParams,
+    ExtractPathParams,
     FileType,
     HttpSuccessStatusCode,
+    HttpRedirectStatusCode,
+    ResponseBodyKind,
+    ResponseFile,
+    ResponseFileInput,
+    SseEventsSchema,
+    ApiSseEvents,
+    ApiStreamItem,
     HttpClientErrorStatusCode,
     HttpServerErrorStatusCode,
     AllowedInputStatusCode,
@@ -29,5 +43,19 @@ export type {
     HttpResponse,
     HttpClientAdapter,
     ApiCallResult,
-    CallApiOptions
+    ApiSuccessResult,
+    ApiErrorResult,
+    ApiCallPromise,
+    FluentApi,
+    CallApiOptions,
+    ApiClientInterceptor,
+    ApiRequestContext,
+    ApiRequestRetry,
+    TokenAuthOptions,
+    RetryPolicy,
+    SseMessage,
+    SseSubscription,
+    SubscribeHandlers,
+    SubscribeOptions,
+    StreamItemsOptions
 } from './client';
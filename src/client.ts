@@ -1,13 +1,32 @@
 import {
     type ApiDefinitionSchema as BaseApiDefinitionSchema, // Renamed for clarity
     type ApiClientParams,
+    type ApiRoutePathParams,
     type ApiClientQuery,
     type ApiClientBody,
+    type ApiClientHeaders,
+    type ApiClientCookies,
+    type ApiClientFiles,
+    type ApiSseEvents,
+    type ApiStreamItem,
+    type FileUploadConfig,
+    type ResponseBodyKind,
+    type ResponseFile,
     type RouteSchema,
+    type PathToken,
     type UnifiedError,
-    type InferDataFromUnifiedResponse
+    type InferDataFromUnifiedResponse,
+    type HttpNoBodyStatusCode,
+    getResponseHeadersSchema,
+    getResponseBodyKind,
+    getResponseItemSchema,
+    JSON_LINES_CONTENT_TYPE,
+    isRedirectResponse,
+    isNoBodyStatus,
+    mapZodError,
+    parsePathTemplate
 } from "./definition";
-import { type ZodTypeAny } from 'zod';
+import { z, type ZodTypeAny } from 'zod';
 
 // --- HTTP Client Adapter Interfaces ---
 
@@ -18,6 +37,14 @@ export interface HttpRequestOptions {
     method: RouteSchema['method'];
     headers?: Record<string, string>;
     body?: string | FormData; // Body is typically string for JSON, or FormData for multipart
+    /**
+     * How redirects are handled: 'follow' transparently (the default) or 'manual' to surface the 3xx response itself.
+     */
+    redirect?: 'follow' | 'manual';
+    /**
+     * Aborts the request when signalled (timeouts, cancellation). Adapters should pass it on to the underlying client.
+     */
+    signal?: AbortSignal;
 }
 
 /**
@@ -29,6 +56,15 @@ export interface HttpResponse<T = any> {
     headers: Headers; // Using the native Headers type from Fetch API for convenience
     json(): Promise<T>;
     text(): Promise<string>;
+    /**
+     * Reads the body as binary, for FileResponse statuses. Adapters without it fall back to getRawResponse() if that is a Fetch API Response.
+     */
+    arrayBuffer?(): Promise<ArrayBuffer>;
+    blob?(): Promise<Blob>;
+    /**
+     * The body as a stream, for FileResponse('stream') statuses.
+     */
+    stream?(): ReadableStream<Uint8Array> | null;
     /**
      * Gets the underlying raw response object from the adapter (e.g., Fetch API's Response object).
      * The type of this object depends on the adapter implementation.
@@ -51,6 +87,458 @@ export interface HttpClientAdapter {
     request<T = any>(url: string, options: HttpRequestOptions): Promise<HttpResponse<T>>;
 }
 
+// --- Client Interceptors ---
+
+/**
+ * The request an interceptor sees: the route being called, the resolved URL and the adapter options.
+ */
+export interface ApiRequestContext {
+    domain: string;
+    routeKey: string;
+    url: string;
+    options: HttpRequestOptions;
+}
+
+/**
+ * Re-sends a request through the interceptors added after the current one and the adapter,
+ * optionally with an updated context.
+ */
+export type ApiRequestRetry = (context?: ApiRequestContext) => Promise<HttpResponse>;
+
+/**
+ * Hooks around every request made by an ApiClient. Interceptors run like an onion: onRequest in the order
+ * they were added, then onResponse / onError in reverse order.
+ */
+export interface ApiClientInterceptor {
+    /**
+     * Called before the request is sent. May mutate the context, return a replacement context,
+     * or return an HttpResponse to short-circuit the request (inner interceptors and the adapter are skipped).
+     */
+    onRequest?(context: ApiRequestContext): void | ApiRequestContext | HttpResponse | Promise<void | ApiRequestContext | HttpResponse>;
+    /**
+     * Called with the response. May return a replacement response, e.g. the response of `retry()`.
+     */
+    onResponse?(response: HttpResponse, context: ApiRequestContext, retry: ApiRequestRetry): void | HttpResponse | Promise<void | HttpResponse>;
+    /**
+     * Called when the adapter or an inner interceptor throws. Return an HttpResponse to recover, otherwise the error is rethrown.
+     */
+    onError?(error: unknown, context: ApiRequestContext, retry: ApiRequestRetry): void | HttpResponse | Promise<void | HttpResponse>;
+}
+
+// Helper to tell a short-circuit response apart from a replacement context
+function isHttpResponse(value: unknown): value is HttpResponse {
+    return typeof value === 'object' && value !== null && 'status' in value && 'headers' in value;
+}
+
+// --- Token Authentication ---
+
+/**
+ * Options for the built-in bearer token strategy (see ApiClient.useTokenAuth).
+ */
+export interface TokenAuthOptions {
+    /**
+     * Returns the current access token. Called before every request; no header is sent when it returns nothing.
+     */
+    getToken: () => string | null | undefined | Promise<string | null | undefined>;
+    /**
+     * Obtains a new access token after a 401, e.g. using a refresh token. Afterwards `getToken` must return the new token.
+     * Concurrent 401s share a single in-flight refresh.
+     */
+    refresh: () => Promise<void>;
+    /**
+     * Called once when `refresh` throws, e.g. to sign the user out, even if several calls were waiting on that refresh.
+     * The original 401 response is then returned to each caller.
+     */
+    onRefreshFailed?: (error: unknown) => void | Promise<void>;
+    /**
+     * The request header carrying the token. Defaults to 'Authorization'.
+     */
+    header?: string;
+    /**
+     * Prefix of the header value. Defaults to 'Bearer'; pass an empty string to send the bare token.
+     */
+    scheme?: string;
+}
+
+/**
+ * Creates an interceptor that sends the token from `getToken` with every request and, after a 401,
+ * refreshes the token and retries the request once.
+ */
+export function createTokenAuthInterceptor(options: TokenAuthOptions): ApiClientInterceptor {
+    const header = options.header ?? 'Authorization';
+    const scheme = options.scheme ?? 'Bearer';
+    let pendingRefresh: Promise<void> | undefined;
+
+    // Single-flight: every caller waits on the same refresh until it settles.
+    // A failed refresh is reported once, however many calls were waiting on it.
+    const refreshOnce = (): Promise<void> => {
+        pendingRefresh ??= Promise.resolve()
+            .then(() => options.refresh())
+            .catch(async (error: unknown) => {
+                await options.onRefreshFailed?.(error);
+                throw error;
+            })
+            .finally(() => { pendingRefresh = undefined; });
+        return pendingRefresh;
+    };
+
+    // Sets the header from the current token and returns the token that was used
+    const applyToken = async (context: ApiRequestContext): Promise<string | null | undefined> => {
+        const token = await options.getToken();
+        const headers = { ...context.options.headers };
+        delete headers[header];
+        if (token) {
+            headers[header] = scheme ? `${scheme} ${token}` : token;
+        }
+        context.options.headers = headers;
+        return token;
+    };
+
+    const sentTokens = new WeakMap<ApiRequestContext, string | null | undefined>();
+
+    return {
+        onRequest: async (context) => {
+            // Requests started during a refresh wait for the new token instead of provoking another 401
+            if (pendingRefresh) {
+                await pendingRefresh.catch(() => undefined);
+            }
+            sentTokens.set(context, await applyToken(context));
+        },
+        onResponse: async (response, context, retry) => {
+            if (response.status !== 401) return;
+
+            // Only refresh if no other call has replaced the token this request was sent with
+            if (await options.getToken() === sentTokens.get(context)) {
+                try {
+                    await refreshOnce();
+                } catch {
+                    return;
+                }
+            }
+
+            await applyToken(context);
+            return retry(context);
+        }
+    };
+}
+
+// --- Retry Policy ---
+
+/**
+ * When and how often ApiClient retries a failed call (see ApiClient.setRetryPolicy and the `retry` call option).
+ * Only idempotent methods (GET, PUT, DELETE, HEAD, OPTIONS) are retried, unless the route sets `idempotent: true`.
+ */
+export interface RetryPolicy {
+    /**
+     * Total number of attempts, including the first one. Defaults to 3.
+     */
+    attempts?: number;
+    /**
+     * Delay before the first retry in milliseconds, doubled for every further retry. Defaults to 300.
+     */
+    baseDelayMs?: number;
+    /**
+     * Upper bound for a single delay, including one requested by a Retry-After header. Defaults to 30000.
+     */
+    maxDelayMs?: number;
+    /**
+     * Picks each backoff delay randomly between 0 and its exponential value. Defaults to true.
+     */
+    jitter?: boolean;
+    /**
+     * Response statuses that are retried. Defaults to 429, 502, 503 and 504.
+     */
+    statuses?: number[];
+    /**
+     * Whether errors thrown by the adapter (connection refused, DNS failures, ...) are retried. Defaults to true.
+     */
+    retryNetworkErrors?: boolean;
+}
+
+const DEFAULT_RETRY_STATUSES = [429, 502, 503, 504];
+const IDEMPOTENT_METHODS: RouteSchema['method'][] = ['GET', 'PUT', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Helper to parse a Retry-After header (seconds or an HTTP date) into milliseconds
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Helper to compute the wait before the given retry (1-based), preferring the server's Retry-After
+function getRetryDelay(policy: RetryPolicy, retry: number, response?: HttpResponse): number {
+    const maxDelay = policy.maxDelayMs ?? 30000;
+    const retryAfter = parseRetryAfter(response?.headers.get('Retry-After') ?? null);
+    if (retryAfter !== undefined) return Math.min(retryAfter, maxDelay);
+
+    const backoff = Math.min((policy.baseDelayMs ?? 300) * 2 ** (retry - 1), maxDelay);
+    return policy.jitter === false ? backoff : Math.random() * backoff;
+}
+
+// Helper to wait between attempts, rejecting with the abort reason as soon as the call is cancelled
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Helper to reject as soon as the signal aborts, even when the adapter ignores it
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+// --- Downloads ---
+
+/**
+ * Saves the result of a FileResponse/TextResponse status in the browser, by clicking a temporary download link.
+ * Outside a browser, write `file.body` to disk yourself (e.g. with fs.writeFile).
+ * @param file The `data` of the result.
+ * @param filename The name to save as; defaults to the filename from Content-Disposition, then 'download'.
+ */
+export async function saveResponseFile(
+    file: ResponseFile<Blob | ArrayBuffer | ReadableStream<Uint8Array> | string>,
+    filename: string = file.filename ?? 'download'
+): Promise<void> {
+    const doc = (globalThis as any).document;
+    if (!doc) {
+        throw new Error('saveResponseFile needs a browser document; write file.body to disk instead.');
+    }
+
+    const blob = file.body instanceof Blob
+        ? file.body
+        : new Blob([await new Response(file.body as ConstructorParameters<typeof Response>[0]).arrayBuffer()], { type: file.contentType ?? '' });
+    const url = URL.createObjectURL(blob);
+    const link = doc.createElement('a');
+    link.href = url;
+    link.download = filename;
+    doc.body.appendChild(link);
+    link.click();
+    doc.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+// --- Server-Sent Events ---
+
+/**
+ * An event received by ApiClient.subscribe, discriminated by its `event` name.
+ * `id` is the event's ID, or the last ID the stream sent before it.
+ */
+export type SseMessage<TEvents extends Record<string, unknown>> = {
+    [E in keyof TEvents & string]: { event: E; data: TEvents[E]; id: string | undefined };
+}[keyof TEvents & string];
+
+/**
+ * Callbacks for ApiClient.subscribe.
+ */
+export interface SubscribeHandlers<TEvents extends Record<string, unknown>> {
+    /**
+     * Called with the data of each event, keyed by event name.
+     */
+    events?: { [E in keyof TEvents & string]?: (data: TEvents[E], message: Extract<SseMessage<TEvents>, { event: E }>) => void };
+    /**
+     * Called with every event.
+     */
+    onMessage?(message: SseMessage<TEvents>): void;
+    /**
+     * Called each time the stream is (re)connected.
+     */
+    onOpen?(): void;
+    /**
+     * Called when a connection drops or fails (the subscription reconnects unless disabled),
+     * and with the ApiCallError that ends the subscription when the server refuses it.
+     */
+    onError?(error: unknown): void;
+}
+
+/**
+ * A live subscription to a Server-Sent Events route. Iterate it with `for await` to receive the events
+ * from then on; breaking out of the loop closes it.
+ */
+export interface SseSubscription<TEvents extends Record<string, unknown>> extends AsyncIterable<SseMessage<TEvents>> {
+    /**
+     * The ID of the last event received, sent as Last-Event-ID when reconnecting.
+     */
+    readonly lastEventId: string | undefined;
+    /**
+     * Closes the connection and stops reconnecting; iteration ends.
+     */
+    close(): void;
+}
+
+// Parsing state of a text/event-stream body; lastEventId and retryMs carry over to the next connection
+interface SseParserState {
+    eventName: string;
+    dataLines: string[];
+    lastEventId: string | undefined;
+    retryMs: number | undefined;
+}
+
+// Processes one line of a text/event-stream body as EventSource does; returns the message a blank line completes
+function processSseLine(line: string, state: SseParserState): SseMessage<Record<string, unknown>> | undefined {
+    if (line === '') {
+        const { eventName, dataLines } = state;
+        state.eventName = '';
+        state.dataLines = [];
+        if (dataLines.length === 0) return undefined;
+
+        const rawData = dataLines.join('\n');
+        let data: unknown;
+        try {
+            data = JSON.parse(rawData);
+        } catch {
+            data = rawData; // Not sent by streamSSE; passed on as text
+        }
+        return { event: eventName || 'message', data, id: state.lastEventId || undefined };
+    }
+    if (line.startsWith(':')) return undefined; // Comment, e.g. a keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+        case 'event': state.eventName = value; break;
+        case 'data': state.dataLines.push(value); break;
+        case 'id': if (!value.includes('\0')) state.lastEventId = value; break;
+        case 'retry': if (/^\d+$/.test(value)) state.retryMs = Number(value); break;
+    }
+    return undefined;
+}
+
+// Reads a text/event-stream body until it ends or the signal aborts, passing each message on
+async function readSseStream(
+    stream: ReadableStream<Uint8Array>,
+    state: SseParserState,
+    signal: AbortSignal,
+    onMessage: (message: SseMessage<Record<string, unknown>>) => void
+): Promise<void> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const cancel = () => { reader.cancel().catch(() => undefined); };
+    signal.addEventListener('abort', cancel, { once: true });
+
+    state.eventName = '';
+    state.dataLines = [];
+    let buffer = '';
+    try {
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            buffer += decoder.decode(chunk.value, { stream: true });
+
+            let lineEnd: RegExpExecArray | null;
+            while ((lineEnd = /\r\n|\r|\n/.exec(buffer)) !== null) {
+                // A trailing \r may be the first half of a \r\n split across chunks
+                if (lineEnd[0] === '\r' && lineEnd.index === buffer.length - 1) break;
+                const line = buffer.slice(0, lineEnd.index);
+                buffer = buffer.slice(lineEnd.index + lineEnd[0].length);
+                const message = processSseLine(line, state);
+                if (message) onMessage(message);
+            }
+        }
+    } finally {
+        signal.removeEventListener('abort', cancel);
+    }
+}
+
+// Parses an NDJSON stream line by line as the chunks arrive; stopping early cancels the download
+async function* readJsonLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            buffer += decoder.decode(chunk.value, { stream: true });
+
+            let lineEnd: number;
+            while ((lineEnd = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.slice(0, lineEnd).trim();
+                buffer = buffer.slice(lineEnd + 1);
+                if (line) yield JSON.parse(line);
+            }
+        }
+        // The last line may come without a trailing newline
+        const line = (buffer + decoder.decode()).trim();
+        if (line) yield JSON.parse(line);
+    } finally {
+        await reader.cancel().catch(() => undefined);
+    }
+}
+
+// Helper to parse a whole NDJSON body into the array of its items
+function parseJsonLines(text: string): unknown[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line !== '').map(line => JSON.parse(line));
+}
+
+// Helper to turn a response a streaming call cannot read (wrong status or content type) into an ApiCallError
+async function readRefusedResponse(domain: string, routeKey: string, response: HttpResponse): Promise<ApiCallError> {
+    const responseText = await response.text().catch(() => '');
+    let body: { data?: unknown; error?: UnifiedError } = { data: responseText };
+    try {
+        body = JSON.parse(responseText);
+    } catch {
+        // Not a JSON body; keep the text as data
+    }
+    return new ApiCallError(domain, routeKey, { status: response.status, data: body.data, error: body.error });
+}
+
+// Queue behind the async iterator of a subscription; the connection pushes while the consumer pulls
+function createMessageQueue<T>() {
+    const messages: T[] = [];
+    let closed = false;
+    let failure: { error: unknown } | undefined;
+    let wake: (() => void) | undefined;
+
+    const notify = () => {
+        const resolveWaiting = wake;
+        wake = undefined;
+        resolveWaiting?.();
+    };
+
+    return {
+        push(message: T) {
+            if (closed) return;
+            messages.push(message);
+            notify();
+        },
+        close() {
+            closed = true;
+            notify();
+        },
+        fail(error: unknown) {
+            failure = { error };
+            closed = true;
+            notify();
+        },
+        async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+            while (true) {
+                if (messages.length > 0) {
+                    yield messages.shift() as T;
+                } else if (failure) {
+                    throw failure.error;
+                } else if (closed) {
+                    return;
+                } else {
+                    await new Promise<void>(resolve => { wake = resolve; });
+                }
+            }
+        }
+    };
+}
+
 // --- Fetch Implementation of the Adapter ---
 
 /**
@@ -61,6 +549,8 @@ export class FetchHttpClientAdapter implements HttpClientAdapter {
         const fetchOptions: RequestInit = {
             method: options.method,
             headers: options.headers,
+            redirect: options.redirect,
+            signal: options.signal,
             // Note: `credentials` (e.g., 'include' for cookies) is not set by default.
             // It can be configured by extending this adapter or by managing cookies via the 'Cookie' header.
         };
@@ -76,6 +566,9 @@ export class FetchHttpClientAdapter implements HttpClientAdapter {
             headers: nativeFetchResponse.headers,
             json: () => nativeFetchResponse.json() as Promise<T>,
             text: () => nativeFetchResponse.text(),
+            arrayBuffer: () => nativeFetchResponse.arrayBuffer(),
+            blob: () => nativeFetchResponse.blob(),
+            stream: () => nativeFetchResponse.body,
             getRawResponse: () => nativeFetchResponse,
         };
     }
@@ -101,12 +594,17 @@ type GetResponses<Rte extends RouteSchema> = Rte['responses'];
  * @template TRouteKey The key of the route within the domain.
  */
 // Helper type to define the payload structure for a single status
-type ApiCallResultPayload<S_STATUS_NUM extends number, ActualSchema extends ZodTypeAny> =
+type ApiCallResultPayload<S_STATUS_NUM extends number, ActualSchema extends ZodTypeAny> = (
     S_STATUS_NUM extends 422 ? { status: S_STATUS_NUM; error: UnifiedError; rawResponse: any; data?: undefined } :
-    S_STATUS_NUM extends 204 ? { status: S_STATUS_NUM; data: null; rawResponse: any; error?: undefined } :
+    S_STATUS_NUM extends HttpNoBodyStatusCode ? { status: S_STATUS_NUM; data: null; rawResponse: any; error?: undefined } :
     // For all other statuses, their schemas from createResponses are wrapped in { data: ... } by the backend.
     // InferDataFromUnifiedResponse will correctly extract the inner data.
-    { status: S_STATUS_NUM; data: InferDataFromUnifiedResponse<ActualSchema>; rawResponse: any; error?: undefined; };
+    { status: S_STATUS_NUM; data: InferDataFromUnifiedResponse<ActualSchema>; rawResponse: any; error?: undefined; }
+) & ApiCallResultHeaders<ActualSchema>;
+
+// Statuses declared with ResponseWithHeaders expose their parsed headers on the payload
+type ApiCallResultHeaders<ActualSchema extends ZodTypeAny> =
+    ActualSchema extends { responseHeaders: infer H extends ZodTypeAny } ? { headers: z.output<H> } : unknown;
 
 export type ApiCallResult<
     TActualDef extends BaseApiDefinitionSchema,
@@ -124,22 +622,395 @@ export type ApiCallResult<
     }[keyof ResponsesMap] // Create a union of all the constructed payload types
     : never;
 
-/**
- * Options for the callApi method.
- * @template TDef The specific ApiDefinition structure being used.
- * @template TDomainParam The domain (controller) of the API.
- * @template TRouteKeyParam The key of the route within the domain.
- */
-export type CallApiOptions<
-    TActualDef extends BaseApiDefinitionSchema, // Made generic over TActualDef
-    TDomainParam extends keyof TActualDef['endpoints'],
-    TRouteKeyParam extends keyof TActualDef['endpoints'][TDomainParam]
-> = {
-    params?: ApiClientParams<TActualDef, TDomainParam, TRouteKeyParam>;
-    query?: ApiClientQuery<TActualDef, TDomainParam, TRouteKeyParam>;
-    body?: ApiClientBody<TActualDef, TDomainParam, TRouteKeyParam>;
-    headers?: Record<string, string>;
-};
+type StatusDigit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+// Helper to split call results by whether their status is in the 200-299 range, so custom 2xx codes count as success
+type SuccessResultOf<TResult, TSuccess extends boolean> = TResult extends { status: infer S extends number }
+    ? (`${S}` extends `2${StatusDigit}${StatusDigit}` ? true : false) extends TSuccess ? TResult : never
+    : never;
+
+/**
+ * The results of a route call with a 2xx status, including custom codes outside the standard registry.
+ */
+export type ApiSuccessResult<
+    TActualDef extends BaseApiDefinitionSchema,
+    TDomain extends keyof TActualDef['endpoints'],
+    TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+> = SuccessResultOf<ApiCallResult<TActualDef, TDomain, TRouteKey>, true>;
+
+/**
+ * The results of a route call with any other declared status (including 422).
+ */
+export type ApiErrorResult<
+    TActualDef extends BaseApiDefinitionSchema,
+    TDomain extends keyof TActualDef['endpoints'],
+    TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+> = SuccessResultOf<ApiCallResult<TActualDef, TDomain, TRouteKey>, false>;
+
+/**
+ * Thrown by `.orThrow()` when a route responds with a status outside 2xx.
+ * `result` holds the typed ApiCallResult of that status.
+ */
+export class ApiCallError<TResult extends { status: number } = { status: number; data?: unknown; error?: UnifiedError }> extends Error {
+    readonly status: TResult['status'];
+
+    constructor(
+        readonly domain: string,
+        readonly routeKey: string,
+        readonly result: TResult
+    ) {
+        super(`API ${domain}.${routeKey} responded with status ${result.status}`);
+        this.name = 'ApiCallError';
+        this.status = result.status;
+    }
+}
+
+/**
+ * Thrown when a call does not complete within its timeout (see ApiClient.setDefaultTimeout and the `timeoutMs` call option).
+ */
+export class TimeoutError extends Error {
+    constructor(
+        readonly domain: string,
+        readonly routeKey: string,
+        readonly timeoutMs: number
+    ) {
+        super(`API ${domain}.${routeKey} timed out after ${timeoutMs}ms`);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Thrown when a call is cancelled through its `signal`, or superseded by a newer `takeLatest` call to the same route.
+ * `reason` holds the reason of the caller's signal, or 'superseded'.
+ */
+export class AbortError extends Error {
+    constructor(
+        readonly domain: string,
+        readonly routeKey: string,
+        readonly reason?: unknown
+    ) {
+        super(`API ${domain}.${routeKey} was aborted`);
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * Reported when response validation is enabled and a response does not match the route's schema for its status.
+ * `data` holds the unvalidated payload (the `error` list for 422), `issues` the Zod issues.
+ */
+export class ResponseValidationError extends Error {
+    constructor(
+        readonly domain: string,
+        readonly routeKey: string,
+        readonly status: number,
+        readonly issues: z.ZodError['issues'],
+        readonly data: unknown
+    ) {
+        super(`API ${domain}.${routeKey}: response for status ${status} does not match its schema: ${issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ')}`);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+/**
+ * The promise returned by a fluent route call: resolves to the ApiCallResult union, and
+ * `.orThrow()` resolves to the 2xx data instead, rejecting with an ApiCallError otherwise.
+ */
+export type ApiCallPromise<
+    TActualDef extends BaseApiDefinitionSchema,
+    TDomain extends keyof TActualDef['endpoints'],
+    TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+> = Promise<ApiCallResult<TActualDef, TDomain, TRouteKey>> & {
+    orThrow(): Promise<ApiSuccessResult<TActualDef, TDomain, TRouteKey>['data']>;
+};
+
+/**
+ * Typed route functions generated from the definition, e.g. `client.api.users.getUser({ params })`.
+ * The call data may be omitted when the route has no required input.
+ */
+export type FluentApi<TActualDef extends BaseApiDefinitionSchema> = {
+    [TDomain in keyof TActualDef['endpoints']]: {
+        [TRouteKey in keyof TActualDef['endpoints'][TDomain]]: (
+            ...args: Record<string, never> extends CallApiOptions<TActualDef, TDomain, TRouteKey>
+                ? [callData?: CallApiOptions<TActualDef, TDomain, TRouteKey>]
+                : [callData: CallApiOptions<TActualDef, TDomain, TRouteKey>]
+        ) => ApiCallPromise<TActualDef, TDomain, TRouteKey>;
+    };
+};
+
+/**
+ * Arguments of generateUrl after the domain and route key. Routes whose path has `:param` placeholders
+ * require params; other routes keep params optional.
+ */
+type GenerateUrlArgs<
+    TActualDef extends BaseApiDefinitionSchema,
+    TDomainParam extends keyof TActualDef['endpoints'],
+    TRouteKeyParam extends keyof TActualDef['endpoints'][TDomainParam]
+> = [ApiRoutePathParams<TActualDef, TDomainParam, TRouteKeyParam>] extends [never]
+    ? [params?: ApiClientParams<TActualDef, TDomainParam, TRouteKeyParam>, query?: ApiClientQuery<TActualDef, TDomainParam, TRouteKeyParam>]
+    : [
+        params: ApiClientParams<TActualDef, TDomainParam, TRouteKeyParam>
+            // Whether a placeholder is required follows the params schema, so optional ones (`:id?`) may be left out
+            & { [K in ApiRoutePathParams<TActualDef, TDomainParam, TRouteKeyParam>]?: string | number | boolean | readonly string[] },
+        query?: ApiClientQuery<TActualDef, TDomainParam, TRouteKeyParam>
+    ];
+
+/**
+ * Options for the callApi method.
+ * @template TDef The specific ApiDefinition structure being used.
+ * @template TDomainParam The domain (controller) of the API.
+ * @template TRouteKeyParam The key of the route within the domain.
+ */
+export type CallApiOptions<
+    TActualDef extends BaseApiDefinitionSchema, // Made generic over TActualDef
+    TDomainParam extends keyof TActualDef['endpoints'],
+    TRouteKeyParam extends keyof TActualDef['endpoints'][TDomainParam]
+> = {
+    params?: ApiClientParams<TActualDef, TDomainParam, TRouteKeyParam>;
+    query?: ApiClientQuery<TActualDef, TDomainParam, TRouteKeyParam>;
+    body?: ApiClientBody<TActualDef, TDomainParam, TRouteKeyParam>;
+    /**
+     * Overrides redirect handling. Routes declaring Redirect() responses default to 'manual' so the typed
+     * 3xx result (with its Location header) reaches the handler; 'follow' lets the adapter follow it instead.
+     */
+    redirect?: 'follow' | 'manual';
+    /**
+     * Overrides the client's retry policy for this call (merged over it), or disables retries with `false`.
+     */
+    retry?: RetryPolicy | false;
+    /**
+     * Fails the call with a TimeoutError after this many milliseconds, including retries. Overrides the client's default timeout.
+     */
+    timeoutMs?: number;
+    /**
+     * Cancels the call when aborted; the call then fails with an AbortError.
+     */
+    signal?: AbortSignal;
+    /**
+     * Aborts the previous `takeLatest` call to the same route that is still in flight, e.g. for search-as-you-type.
+     */
+    takeLatest?: boolean;
+    /**
+     * Validates params, query and body against the route schemas before sending; invalid input resolves to a local 422 result.
+     * Overrides the client's setting (see ApiClient.setRequestValidation).
+     */
+    validateRequest?: boolean;
+    /**
+     * Validates the response against the route's schema for its status, applying transforms to the data.
+     * Overrides the client's setting (see ApiClient.setResponseValidation).
+     */
+    validateResponse?: boolean;
+}
+    & TypedInputOption<'headers', ApiClientHeaders<TActualDef, TDomainParam, TRouteKeyParam>, Record<string, string>>
+    & TypedInputOption<'cookies', ApiClientCookies<TActualDef, TDomainParam, TRouteKeyParam>, never>
+    & FilesOption<ApiClientFiles<TActualDef, TDomainParam, TRouteKeyParam>>;
+
+/**
+ * Options for ApiClient.subscribe.
+ */
+export type SubscribeOptions<
+    TActualDef extends BaseApiDefinitionSchema,
+    TDomainParam extends keyof TActualDef['endpoints'],
+    TRouteKeyParam extends keyof TActualDef['endpoints'][TDomainParam]
+> = Pick<CallApiOptions<TActualDef, TDomainParam, TRouteKeyParam>, 'params' | 'query' | 'headers' | 'cookies' | 'signal'> & {
+    /**
+     * Reconnects when the stream ends or the connection drops, like EventSource. Defaults to true.
+     */
+    reconnect?: boolean;
+    /**
+     * Delay before reconnecting, until the server sends a `retry:` hint. Defaults to 1000ms.
+     */
+    reconnectDelayMs?: number;
+    /**
+     * Resumes after this event ID: it is sent as Last-Event-ID from the first request on.
+     */
+    lastEventId?: string;
+};
+
+/**
+ * Options for ApiClient.streamItems. `timeoutMs` (or the client's default timeout) only covers the wait
+ * for the response headers, so a long stream is not cut off while its items arrive.
+ */
+export type StreamItemsOptions<
+    TActualDef extends BaseApiDefinitionSchema,
+    TDomainParam extends keyof TActualDef['endpoints'],
+    TRouteKeyParam extends keyof TActualDef['endpoints'][TDomainParam]
+> = Pick<CallApiOptions<TActualDef, TDomainParam, TRouteKeyParam>, 'params' | 'query' | 'body' | 'headers' | 'cookies' | 'signal' | 'timeoutMs' | 'validateResponse'>;
+
+// Helper to offer `files` only on upload routes, keyed by exactly the declared field names
+type FilesOption<TFiles> = [TFiles] extends [undefined] ? { files?: never } : { files?: TFiles };
+
+// Helper to make a typed input (headers, cookies) required when its schema has required keys.
+// Routes without a schema fall back to TUntyped (or no option at all when TUntyped is never).
+type TypedInputOption<TKey extends string, TInput, TUntyped> =
+    [TInput] extends [undefined]
+    ? ([TUntyped] extends [never] ? { [K in TKey]?: never } : { [K in TKey]?: TUntyped })
+    : Record<string, never> extends TInput
+    ? { [K in TKey]?: TInput & Record<string, unknown> }
+    : { [K in TKey]: TInput & Record<string, unknown> };
+
+// Helper to turn typed header/cookie values into the strings sent over the wire, dropping undefined entries
+function stringifyRecord(record: Record<string, unknown> | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!record) return result;
+
+    for (const key in record) {
+        if (Object.prototype.hasOwnProperty.call(record, key) && record[key] !== undefined) {
+            result[key] = String(record[key]);
+        }
+    }
+    return result;
+}
+
+// Helper to validate call inputs against the route schemas in the order the server does, stopping at the first invalid part
+function validateCallInputs(
+    route: RouteSchema,
+    callData: { params?: unknown; query?: unknown; headers?: unknown; cookies?: unknown; body?: unknown } | undefined
+): UnifiedError | undefined {
+    const parts: [ZodTypeAny | undefined, unknown][] = [
+        [route.params, callData?.params ?? {}],
+        [route.query, callData?.query ?? {}],
+        [route.headers, callData?.headers ?? {}],
+        [route.cookies, callData?.cookies ?? {}],
+        [route.body, callData?.body]
+    ];
+    for (const [schema, value] of parts) {
+        const result = schema?.safeParse(value);
+        if (result && !result.success) return mapZodError(result.error);
+    }
+    return undefined;
+}
+
+// Helper to build the 422 result of a request rejected before sending; there is no raw response for it
+function createLocalErrorResult(error: UnifiedError) {
+    return { status: 422 as const, error, rawResponse: null };
+}
+
+// Helper to list the files given for an upload field
+function toFileList(value: Blob | Blob[] | undefined): Blob[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+// Upload limits the Express and Fastify servers apply when the FileUploadConfig leaves them out
+const DEFAULT_UPLOAD_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_UPLOAD_MAX_COUNT = 10;
+
+// Helper to check files against the route's FileUploadConfig before uploading, with the errors the servers send
+function validateUploadFiles(config: FileUploadConfig, files: Record<string, Blob | Blob[] | undefined>): UnifiedError | undefined {
+    for (const [fieldName, value] of Object.entries(files)) {
+        const rule = config.single?.fieldName === fieldName ? config.single
+            : config.array?.fieldName === fieldName ? config.array
+                : config.fields?.find(f => f.fieldName === fieldName) ?? config.any;
+        if (!rule) continue;
+
+        const blobs = toFileList(value);
+        const maxCount = (rule as { maxCount?: number }).maxCount ?? (rule === config.array ? DEFAULT_UPLOAD_MAX_COUNT : undefined);
+        if (maxCount && blobs.length > maxCount) {
+            return [{ field: config.fields ? fieldName : 'file', type: 'body', message: `Maximum ${maxCount} files allowed` }];
+        }
+
+        const field = config.any ? fieldName : 'file';
+        const maxSize = rule.maxSize || DEFAULT_UPLOAD_MAX_SIZE;
+        for (const blob of blobs) {
+            if (blob.size > maxSize) {
+                return [{ field, type: 'body', message: `File size exceeds ${maxSize} bytes` }];
+            }
+            if (rule.allowedMimeTypes && !rule.allowedMimeTypes.includes(blob.type)) {
+                return [{ field, type: 'body', message: `File type ${blob.type} not allowed` }];
+            }
+        }
+    }
+    return undefined;
+}
+
+// Helper to build the multipart body of an upload: body fields as text parts, then the files.
+// Numbers and booleans are sent as text and objects as JSON; the server coerces them back before validation.
+function buildUploadFormData(body: unknown, files: Record<string, Blob | Blob[] | undefined>): FormData {
+    const formData = new FormData();
+    if (body && typeof body === 'object') {
+        for (const [key, value] of Object.entries(body)) {
+            if (value === undefined) continue;
+            formData.append(key, typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value));
+        }
+    }
+    for (const [fieldName, value] of Object.entries(files)) {
+        for (const blob of toFileList(value)) {
+            formData.append(fieldName, blob);
+        }
+    }
+    return formData;
+}
+
+// Helper to read the filename from a Content-Disposition header, preferring the RFC 5987 filename* form
+function parseContentDispositionFilename(header: string | null): string | undefined {
+    if (!header) return undefined;
+
+    const extended = header.match(/filename\*\s*=\s*[\w-]+'[^']*'([^;]+)/i);
+    if (extended) {
+        try {
+            return decodeURIComponent(extended[1].trim());
+        } catch {
+            // Malformed encoding; fall back to the plain filename
+        }
+    }
+
+    const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i);
+    if (!plain) return undefined;
+    return plain[1] !== undefined ? plain[1].replace(/\\(.)/g, '$1') : plain[2].trim();
+}
+
+// Helper to read a FileResponse/TextResponse body as its declared kind
+async function readResponseBody(response: HttpResponse, kind: ResponseBodyKind): Promise<unknown> {
+    if (kind === 'text') return response.text();
+
+    // Adapters without the binary readers still work if their raw response is a Fetch API Response
+    const raw = response.getRawResponse();
+    const fetchResponse: Response | undefined = typeof Response !== 'undefined' && raw instanceof Response ? raw : undefined;
+
+    if (kind === 'blob' && (response.blob || fetchResponse)) {
+        return response.blob ? response.blob() : fetchResponse!.blob();
+    }
+    if (kind === 'arrayBuffer' && (response.arrayBuffer || fetchResponse)) {
+        return response.arrayBuffer ? response.arrayBuffer() : fetchResponse!.arrayBuffer();
+    }
+    if (kind === 'stream' && (response.stream || fetchResponse)) {
+        return response.stream ? response.stream() : fetchResponse!.body;
+    }
+    throw new Error(`The HTTP client adapter cannot read ${kind} response bodies: its HttpResponse has no ${kind}() method.`);
+}
+
+// Helper to coerce a header string into the primitive type its schema expects (number, boolean)
+function coerceHeaderValue(value: string, fieldSchema: ZodTypeAny): unknown {
+    let innerSchema: ZodTypeAny = fieldSchema;
+    while (innerSchema instanceof z.ZodOptional || innerSchema instanceof z.ZodNullable || innerSchema instanceof z.ZodDefault) {
+        innerSchema = innerSchema._def.innerType as ZodTypeAny;
+    }
+
+    if (innerSchema instanceof z.ZodNumber) {
+        const numValue = Number(value);
+        return isNaN(numValue) ? value : numValue;
+    }
+    if (innerSchema instanceof z.ZodBoolean) {
+        return value === 'true' ? true : value === 'false' ? false : value;
+    }
+    return value;
+}
+
+// Helper to read the headers declared for a response status out of the native Headers object
+function readResponseHeaders(headers: Headers, headersSchema: ZodTypeAny): Record<string, unknown> {
+    const picked: Record<string, unknown> = {};
+    if (headersSchema instanceof z.ZodObject) {
+        for (const [name, fieldSchema] of Object.entries(headersSchema.shape as Record<string, ZodTypeAny>)) {
+            const value = headers.get(name);
+            if (value !== null) {
+                picked[name] = coerceHeaderValue(value, fieldSchema);
+            }
+        }
+    }
+
+    // Apply the schema so defaults and transforms take effect; fall back to the raw values if the server sent something else
+    const parseResult = headersSchema.safeParse(picked);
+    return parseResult.success ? parseResult.data as Record<string, unknown> : picked;
+}
 
 // --- API Client Class ---
 
@@ -152,6 +1023,18 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
     private apiDefinitionObject: TActualDef; // Uses generic type TActualDef
     private adapter: HttpClientAdapter;
     private persistentHeaders: Record<string, string> = {};
+    private interceptors: ApiClientInterceptor[] = [];
+    private retryPolicy: RetryPolicy | undefined;
+    private defaultTimeoutMs: number | undefined;
+    private validateRequests = false;
+    private validateResponses = false;
+    private onResponseValidationError: ((error: ResponseValidationError) => void) | undefined;
+    private latestCalls = new Map<string, AbortController>();
+
+    /**
+     * Route functions generated from the definition, e.g. `client.api.users.getUser({ params })`.
+     */
+    public readonly api: FluentApi<TActualDef>;
 
     /**
      * Creates an instance of ApiClient.
@@ -167,6 +1050,33 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
         this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
         this.apiDefinitionObject = apiDefinitionObject;
         this.adapter = adapter;
+        this.api = this.createFluentApi();
+    }
+
+    /**
+     * Builds the `api` object: one function per route, calling callApiResult.
+     */
+    private createFluentApi(): FluentApi<TActualDef> {
+        const api: Record<string, Record<string, (callData?: CallApiOptions<TActualDef, string, string>) => Promise<unknown>>> = {};
+
+        for (const domain of Object.keys(this.apiDefinitionObject.endpoints)) {
+            api[domain] = {};
+            for (const routeKey of Object.keys(this.apiDefinitionObject.endpoints[domain])) {
+                api[domain][routeKey] = (callData?: CallApiOptions<TActualDef, string, string>) => {
+                    const resultPromise = this.callApiResult(domain, routeKey, callData);
+                    return Object.assign(resultPromise, {
+                        orThrow: () => resultPromise.then((result: { status: number; data?: unknown }) => {
+                            if (result.status >= 200 && result.status < 300) {
+                                return result.data;
+                            }
+                            throw new ApiCallError(domain, routeKey, result);
+                        })
+                    });
+                };
+            }
+        }
+
+        return api as unknown as FluentApi<TActualDef>;
     }
 
     /**
@@ -203,6 +1113,153 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
         this.persistentHeaders = {};
     }
 
+    /**
+     * Adds an interceptor that runs around every subsequent API call.
+     * @param interceptor The hooks to run before the request, after the response and on errors.
+     * @returns A function that removes the interceptor again.
+     */
+    public addInterceptor(interceptor: ApiClientInterceptor): () => void {
+        this.interceptors.push(interceptor);
+        return () => {
+            this.interceptors = this.interceptors.filter(existing => existing !== interceptor);
+        };
+    }
+
+    /**
+     * Sets the retry policy for every subsequent API call. Calls are not retried unless a policy is set here or per call.
+     * @param policy The retry policy, or undefined to disable retries.
+     */
+    public setRetryPolicy(policy: RetryPolicy | undefined): void {
+        this.retryPolicy = policy;
+    }
+
+    /**
+     * Sets the timeout for every subsequent API call; calls that take longer fail with a TimeoutError.
+     * @param timeoutMs The timeout in milliseconds, or undefined to wait indefinitely.
+     */
+    public setDefaultTimeout(timeoutMs: number | undefined): void {
+        this.defaultTimeoutMs = timeoutMs;
+    }
+
+    /**
+     * Enables validating params, query and body against the route schemas before every subsequent API call.
+     * Invalid input resolves to a 422 result with the same UnifiedError the server would send, without a network call.
+     * @param enabled Whether to validate requests; can be overridden per call with `validateRequest`.
+     */
+    public setRequestValidation(enabled: boolean): void {
+        this.validateRequests = enabled;
+    }
+
+    /**
+     * Enables validating every subsequent response against the route's schema for its status. Zod transforms are applied,
+     * so the result data matches the inferred (output) types, e.g. date strings become Dates.
+     * @param enabled Whether to validate responses; can be overridden per call with `validateResponse`.
+     * @param onError Called with contract violations instead of throwing them; the call then resolves with the unvalidated data.
+     * Without it the call rejects with a ResponseValidationError.
+     */
+    public setResponseValidation(enabled: boolean, onError?: (error: ResponseValidationError) => void): void {
+        this.validateResponses = enabled;
+        this.onResponseValidationError = onError;
+    }
+
+    /**
+     * Authenticates every subsequent API call with a bearer token, refreshing it and retrying once after a 401.
+     * @param options The token provider, the refresh function and the hook for failed refreshes.
+     * @returns A function that removes the token authentication again.
+     */
+    public useTokenAuth(options: TokenAuthOptions): () => void {
+        return this.addInterceptor(createTokenAuthInterceptor(options));
+    }
+
+    /**
+     * Runs the request through the interceptors from `interceptors[0]` inwards, then the adapter.
+     * @param onAdapterError Receives errors thrown by the adapter itself, so callers can tell them apart from interceptor errors.
+     */
+    private async dispatchRequest(
+        context: ApiRequestContext,
+        interceptors: ApiClientInterceptor[],
+        onAdapterError: (error: unknown) => void
+    ): Promise<HttpResponse> {
+        const [interceptor, ...inner] = interceptors;
+        if (!interceptor) {
+            try {
+                return await this.adapter.request(context.url, context.options);
+            } catch (error) {
+                onAdapterError(error);
+                throw error;
+            }
+        }
+
+        if (interceptor.onRequest) {
+            const result = await interceptor.onRequest(context);
+            if (isHttpResponse(result)) {
+                return result;
+            }
+            if (result) {
+                context = result;
+            }
+        }
+
+        const retry: ApiRequestRetry = (retryContext = context) => this.dispatchRequest(retryContext, inner, onAdapterError);
+
+        let response: HttpResponse;
+        try {
+            response = await retry();
+        } catch (error) {
+            const recovered = await interceptor.onError?.(error, context, retry);
+            if (!recovered) throw error;
+            response = recovered;
+        }
+
+        if (interceptor.onResponse) {
+            response = (await interceptor.onResponse(response, context, retry)) ?? response;
+        }
+        return response;
+    }
+
+    /**
+     * Sends a request through the interceptors and the adapter, retrying it according to the retry policy.
+     * @param createContext Creates the request context for each attempt.
+     * @param retryPolicy The effective retry policy, or undefined to send the request once.
+     * @param signal The call's signal; once aborted, no further attempt is made and its reason is thrown.
+     * @throws Error prefixed with `Network error:` when the adapter fails on the last attempt; interceptor errors are rethrown as-is.
+     */
+    private async sendRequest(createContext: () => ApiRequestContext, retryPolicy: RetryPolicy | undefined, signal: AbortSignal): Promise<HttpResponse> {
+        const maxAttempts = retryPolicy ? Math.max(1, retryPolicy.attempts ?? 3) : 1;
+        const retryStatuses = retryPolicy?.statuses ?? DEFAULT_RETRY_STATUSES;
+
+        for (let attempt = 1; ; attempt++) {
+            if (signal.aborted) throw signal.reason;
+            const context = createContext();
+            const canRetry = retryPolicy !== undefined && attempt < maxAttempts;
+
+            let response: HttpResponse;
+            let networkError: unknown;
+            try {
+                response = await abortable(this.dispatchRequest(context, [...this.interceptors], error => { networkError = error; }), signal);
+            } catch (error) {
+                if (signal.aborted) throw signal.reason;
+                // Errors thrown by interceptors are passed through as-is
+                if (error !== networkError) throw error;
+                if (canRetry && retryPolicy.retryNetworkErrors !== false) {
+                    await sleep(getRetryDelay(retryPolicy, attempt), signal);
+                    continue;
+                }
+                const errorMessage = networkError instanceof Error ? networkError.message : `Unknown network error calling API ${context.domain}.${context.routeKey}`;
+                console.error(`Network error for ${context.domain}.${context.routeKey}:`, networkError);
+                throw new Error(`Network error: ${errorMessage}`);
+            }
+
+            if (canRetry && retryStatuses.includes(response.status)) {
+                // Release the discarded response body
+                response.text().catch(() => undefined);
+                await sleep(getRetryDelay(retryPolicy, attempt, response), signal);
+                continue;
+            }
+            return response;
+        }
+    }
+
     /**
      * Gets the full base URL including any prefix from the API definition.
      * @returns The base URL with prefix applied.
@@ -216,16 +1273,59 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
         return this.baseUrl;
     }
 
+    /**
+     * Replaces every placeholder of a route path with its value from params. Named wildcards (`*path`) take a
+     * string or an array of segments. An optional placeholder (`:id?`) or optional group (`{/:id}`) without a
+     * value is left out together with its segment.
+     * @throws Error if a required placeholder has no value, rather than sending the literal placeholder to the server.
+     */
+    private buildUrlPath(path: string, params: Record<string, unknown> | undefined): string {
+        // Returns undefined when an optional group is missing a value, so the whole group is left out
+        const render = (tokens: PathToken[], inGroup: boolean): string | undefined => {
+            let result = '';
+            for (const token of tokens) {
+                if (token.type === 'text') {
+                    result += token.value;
+                    continue;
+                }
+                if (token.type === 'group') {
+                    result += render(token.tokens, true) ?? '';
+                    continue;
+                }
+                if (!token.name) {
+                    result += '*'; // An unnamed wildcard has no value to fill in
+                    continue;
+                }
+
+                const value = params && Object.prototype.hasOwnProperty.call(params, token.name) ? params[token.name] : undefined;
+                if (value === undefined) {
+                    if (inGroup) {
+                        return undefined;
+                    }
+                    if (token.type === 'param' && token.optional) {
+                        result = result.replace(/\/$/, '');
+                        continue;
+                    }
+                    throw new Error(`Missing value for path parameter "${token.name}" in "${path}".`);
+                }
+                result += Array.isArray(value) ? value.join('/') : String(value);
+            }
+            return result;
+        };
+
+        return render(parsePathTemplate(path), false) as string;
+    }
+
     /**
      * Generates the full URL for a specific route, incorporating path parameters and query parameters.
      * @template TDomain The domain (controller) of the API.
      * @template TRouteKey The key of the route within the domain.
      * @param domain The API domain (e.g., 'user').
      * @param routeKey The API route key (e.g., 'getUsers').
-     * @param params Optional path parameters to replace in the route path.
+     * @param params Path parameters to replace in the route path; required when the path has `:param` placeholders.
      * @param query Optional query parameters to append to the URL.
      * @returns The full URL as a string.
-     * @throws Error if the route configuration is invalid.
+     * @throws Error if the route configuration is invalid or a path placeholder has no value.
      */
     public generateUrl<
         TDomain extends keyof TActualDef['endpoints'],
@@ -233,8 +1333,7 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
     >(
         domain: TDomain,
         routeKey: TRouteKey,
-        params?: ApiClientParams<TActualDef, TDomain, TRouteKey>,
-        query?: ApiClientQuery<TActualDef, TDomain, TRouteKey>
+        ...[params, query]: GenerateUrlArgs<TActualDef, TDomain, TRouteKey>
     ): string {
         const routeInfo = this.apiDefinitionObject.endpoints[domain as string][routeKey as string] as RouteSchema;
 
@@ -242,16 +1341,7 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
             throw new Error(`API route configuration ${String(domain)}.${String(routeKey)} not found or invalid.`);
         }
 
-        let urlPath = routeInfo.path;
-        if (params) {
-            const paramsRecord = params as Record<string, string | number | boolean>;
-            for (const key in paramsRecord) {
-                if (Object.prototype.hasOwnProperty.call(paramsRecord, key) && paramsRecord[key] !== undefined) {
-                    urlPath = urlPath.replace(`:${key}`, String(paramsRecord[key]));
-                }
-            }
-        }
-
+        const urlPath = this.buildUrlPath(routeInfo.path, params as Record<string, unknown> | undefined);
         const url = new URL(this.getBaseUrlWithPrefix() + urlPath);
 
         if (query) {
@@ -292,22 +1382,317 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
         callData: CallApiOptions<TActualDef, TDomain, TRouteKey> | undefined, // Uses TActualDef
         handlers: TInferredHandlers
     ): Promise<{ [SKey in keyof TInferredHandlers]: TInferredHandlers[SKey] extends (...args: any[]) => infer R ? R : never }[keyof TInferredHandlers]> {
-        const routeInfo = this.apiDefinitionObject.endpoints[domain as string][routeKey as string] as RouteSchema; // Accessing from TActualDef instance
+        const apiResultPayload = await this.callApiResult(domain, routeKey, callData);
+
+        const handler = handlers[apiResultPayload.status as keyof TInferredHandlers];
+        return handler(apiResultPayload as any); // Reverting to `as any` as TS struggles with direct narrowing here
+    }
+
+    /**
+     * Makes an API call and returns the result for its status, without a handler map.
+     * @template TDomain The domain (controller) of the API.
+     * @template TRouteKey The key of the route within the domain.
+     * @param domain The API domain (e.g., 'user').
+     * @param routeKey The API route key (e.g., 'getUsers').
+     * @param callData Optional parameters, query, body, and headers for the request.
+     * @returns A promise that resolves to the ApiCallResult union, discriminated by `status`.
+     * @throws Error if the route configuration is invalid, a network error occurs, an undeclared status code is received, or JSON parsing fails.
+     * @throws TimeoutError if the call exceeds its timeout, AbortError if it is cancelled or superseded.
+     */
+    public async callApiResult<
+        TDomain extends keyof TActualDef['endpoints'],
+        TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+    >(
+        domain: TDomain,
+        routeKey: TRouteKey,
+        callData?: CallApiOptions<TActualDef, TDomain, TRouteKey>
+    ): Promise<ApiCallResult<TActualDef, TDomain, TRouteKey>> {
+        const { signal, release } = this.createCallSignal(String(domain), String(routeKey), callData);
+        try {
+            return await this.performCall(domain, routeKey, callData, signal);
+        } catch (error) {
+            // Whatever failed after cancellation (adapter, body parsing), report the cancellation itself
+            if (signal.aborted) throw signal.reason;
+            throw error;
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Subscribes to a Server-Sent Events route. Events are parsed (and typed by the route's `sse` contract) and passed
+     * to the handlers, and to the returned subscription when it is iterated with `for await`.
+     * When the stream ends or the connection drops, it reconnects with the Last-Event-ID of the last event received,
+     * until closed, aborted through `signal`, or refused by the server (any status other than 200, or 204 to stop quietly).
+     * @template TDomain The domain (controller) of the API.
+     * @template TRouteKey The key of the route within the domain.
+     * @param domain The API domain (e.g., 'dashboard').
+     * @param routeKey The API route key (e.g., 'live').
+     * @param callData Optional parameters, query, headers and reconnection options for the request.
+     * @param handlers Optional callbacks for events, (re)connections and errors.
+     * @returns The subscription, to iterate over or close.
+     * @throws Error if the route configuration is invalid.
+     */
+    public subscribe<
+        TDomain extends keyof TActualDef['endpoints'],
+        TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+    >(
+        domain: TDomain,
+        routeKey: TRouteKey,
+        callData?: SubscribeOptions<TActualDef, TDomain, TRouteKey>,
+        handlers: SubscribeHandlers<ApiSseEvents<TActualDef, TDomain, TRouteKey>> = {}
+    ): SseSubscription<ApiSseEvents<TActualDef, TDomain, TRouteKey>> {
+        type TMessage = SseMessage<ApiSseEvents<TActualDef, TDomain, TRouteKey>>;
+        const routeInfo = this.apiDefinitionObject.endpoints[domain as string][routeKey as string] as RouteSchema;
+
+        if (!routeInfo || typeof routeInfo.path !== 'string') {
+            throw new Error(`API route configuration ${String(domain)}.${String(routeKey)} not found or invalid.`);
+        }
+
+        const controller = new AbortController();
+        const callerSignal = callData?.signal;
+        if (callerSignal?.aborted) {
+            controller.abort();
+        } else {
+            callerSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+        }
+
+        const state: SseParserState = { eventName: '', dataLines: [], lastEventId: callData?.lastEventId, retryMs: undefined };
+        const queue = createMessageQueue<TMessage>();
+        // Events are only queued once iteration has started, so callback-only subscriptions do not buffer
+        let iterating = false;
+
+        // An error thrown by a handler is logged; it neither ends the stream nor becomes an unhandled rejection
+        const callHandler = (name: string, call: () => void) => {
+            try {
+                call();
+            } catch (error) {
+                console.error(`Error in subscribe ${name} handler for ${String(domain)}.${String(routeKey)}:`, error);
+            }
+        };
+
+        const deliver = (message: TMessage) => {
+            callHandler(message.event, () => (handlers.events as Record<string, ((data: unknown, message: TMessage) => void) | undefined> | undefined)?.[message.event]?.(message.data, message));
+            callHandler('onMessage', () => handlers.onMessage?.(message));
+            if (iterating) queue.push(message);
+        };
+
+        this.runSubscription(String(domain), String(routeKey), routeInfo, callData, state, controller.signal, {
+            onMessage: message => deliver(message as TMessage),
+            onOpen: () => callHandler('onOpen', () => handlers.onOpen?.()),
+            onError: error => callHandler('onError', () => handlers.onError?.(error))
+        }).then(
+            () => queue.close(),
+            error => {
+                callHandler('onError', () => handlers.onError?.(error));
+                queue.fail(error);
+            }
+        );
+
+        return {
+            get lastEventId() {
+                return state.lastEventId || undefined;
+            },
+            close: () => {
+                controller.abort();
+                queue.close();
+            },
+            [Symbol.asyncIterator]: () => {
+                iterating = true;
+                const iterator = queue[Symbol.asyncIterator]();
+                return {
+                    next: () => iterator.next(),
+                    // Breaking out of a for await loop closes the subscription
+                    return: async () => {
+                        controller.abort();
+                        queue.close();
+                        return iterator.return(undefined);
+                    }
+                };
+            }
+        };
+    }
+
+    /**
+     * Connects to an SSE route and reads its stream, reconnecting until the signal aborts.
+     * Connection failures are reported to onError and retried when reconnecting is enabled, otherwise thrown.
+     * @throws ApiCallError when the server answers with a status other than 200 or 204, or not with an event stream.
+     */
+    private async runSubscription(
+        domain: string,
+        routeKey: string,
+        routeInfo: RouteSchema,
+        callData: { params?: unknown; query?: unknown; headers?: unknown; cookies?: unknown; reconnect?: boolean; reconnectDelayMs?: number } | undefined,
+        state: SseParserState,
+        signal: AbortSignal,
+        listeners: { onMessage: (message: SseMessage<Record<string, unknown>>) => void; onOpen: () => void; onError: (error: unknown) => void }
+    ): Promise<void> {
+        const url = this.buildRequestUrl(routeInfo, callData);
+        const reconnect = callData?.reconnect ?? true;
+
+        while (!signal.aborted) {
+            try {
+                const headers: Record<string, string> = {
+                    ...this.buildRequestHeaders(callData),
+                    'Accept': 'text/event-stream',
+                    'Cache-Control': 'no-cache'
+                };
+                if (state.lastEventId) {
+                    headers['Last-Event-ID'] = state.lastEventId;
+                }
+
+                const response = await this.sendRequest(
+                    () => ({ domain, routeKey, url, options: { method: routeInfo.method, headers: { ...headers }, signal } }),
+                    undefined,
+                    signal
+                );
+
+                // 204 is how a server tells an EventSource to stop reconnecting
+                if (response.status === 204) return;
+                if (response.status !== 200 || !response.headers.get('content-type')?.includes('text/event-stream')) {
+                    throw await readRefusedResponse(domain, routeKey, response);
+                }
+
+                listeners.onOpen();
+                const stream = await readResponseBody(response, 'stream') as ReadableStream<Uint8Array> | null;
+                if (stream) {
+                    await readSseStream(stream, state, signal, listeners.onMessage);
+                }
+            } catch (error) {
+                if (signal.aborted) return;
+                // Refusals by the server are final, whether or not reconnecting is enabled
+                if (error instanceof ApiCallError || !reconnect) throw error;
+                listeners.onError(error);
+            }
+
+            if (!reconnect || signal.aborted) return;
+            await sleep(state.retryMs ?? callData?.reconnectDelayMs ?? 1000, signal).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Streams the items of a route declared with JsonLinesResponse as they arrive, without holding the whole response in memory.
+     * With response validation enabled (see ApiClient.setResponseValidation), every item is validated against the item schema.
+     * Stopping the iteration early cancels the request.
+     * @template TDomain The domain (controller) of the API.
+     * @template TRouteKey The key of the route within the domain.
+     * @param domain The API domain (e.g., 'reports').
+     * @param routeKey The API route key (e.g., 'export').
+     * @param callData Optional parameters, query, body, headers and signal for the request.
+     * @returns An async iterable of the typed items.
+     * @throws ApiCallError when the server answers with a status not declared with JsonLinesResponse.
+     * @throws ResponseValidationError when an item does not match the item schema and no validation error handler is set.
+     */
+    public async *streamItems<
+        TDomain extends keyof TActualDef['endpoints'],
+        TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+    >(
+        domain: TDomain,
+        routeKey: TRouteKey,
+        callData?: StreamItemsOptions<TActualDef, TDomain, TRouteKey>
+    ): AsyncGenerator<ApiStreamItem<TActualDef, TDomain, TRouteKey>, void, undefined> {
+        const routeInfo = this.apiDefinitionObject.endpoints[domain as string][routeKey as string] as RouteSchema;
 
         if (!routeInfo || typeof routeInfo.path !== 'string') {
             throw new Error(`API route configuration ${String(domain)}.${String(routeKey)} not found or invalid.`);
         }
 
-        let urlPath = routeInfo.path;
-        if (callData?.params) {
-            const params = callData.params as Record<string, string | number | boolean>;
-            for (const key in params) {
-                if (Object.prototype.hasOwnProperty.call(params, key) && params[key] !== undefined) {
-                    urlPath = urlPath.replace(`:${key}`, String(params[key]));
+        const url = this.buildRequestUrl(routeInfo, callData);
+        const headers: Record<string, string> = { ...this.buildRequestHeaders(callData), 'Accept': JSON_LINES_CONTENT_TYPE };
+        const { signal, release, clearTimer } = this.createCallSignal(String(domain), String(routeKey), { signal: callData?.signal, timeoutMs: callData?.timeoutMs });
+        const options: HttpRequestOptions = { method: routeInfo.method, headers, signal };
+        if (routeInfo.method !== 'GET' && routeInfo.method !== 'HEAD' && callData?.body !== undefined) {
+            options.body = JSON.stringify(callData.body);
+        }
+
+        try {
+            const response = await this.sendRequest(
+                () => ({ domain: String(domain), routeKey: String(routeKey), url, options: { ...options, headers: { ...headers } } }),
+                undefined,
+                signal
+            );
+            // The timeout covers the wait for the response; the items may then take as long as they take
+            clearTimer();
+
+            const itemSchema = getResponseItemSchema(routeInfo.responses[response.status]);
+            if (!itemSchema || !response.headers.get('content-type')?.includes(JSON_LINES_CONTENT_TYPE)) {
+                throw await readRefusedResponse(String(domain), String(routeKey), response);
+            }
+
+            const stream = await readResponseBody(response, 'stream') as ReadableStream<Uint8Array> | null;
+            if (!stream) return;
+
+            const validate = callData?.validateResponse ?? this.validateResponses;
+            for await (const item of readJsonLines(stream)) {
+                if (validate) {
+                    const validation = itemSchema.safeParse(item);
+                    if (validation.success) {
+                        yield validation.data as ApiStreamItem<TActualDef, TDomain, TRouteKey>;
+                        continue;
+                    }
+                    const error = new ResponseValidationError(String(domain), String(routeKey), response.status, validation.error.issues, item);
+                    if (!this.onResponseValidationError) throw error;
+                    this.onResponseValidationError(error);
                 }
+                yield item as ApiStreamItem<TActualDef, TDomain, TRouteKey>;
+            }
+        } catch (error) {
+            // Whatever failed after cancellation (adapter, body parsing), report the cancellation itself
+            if (signal.aborted) throw signal.reason;
+            throw error;
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Combines the timeout, the caller's signal and take-latest cancellation into one signal for a call.
+     * Its abort reason is the TimeoutError or AbortError the call fails with.
+     * @returns The signal, a function that clears the timer and listeners once the call has settled,
+     * and one that only clears the timer, for calls that keep reading after the response has arrived.
+     */
+    private createCallSignal(
+        domain: string,
+        routeKey: string,
+        callData: { timeoutMs?: number; signal?: AbortSignal; takeLatest?: boolean } | undefined
+    ): { signal: AbortSignal; release: () => void; clearTimer: () => void } {
+        const controller = new AbortController();
+        const releases: (() => void)[] = [];
+        let clearTimer = () => { };
+
+        const timeoutMs = callData?.timeoutMs ?? this.defaultTimeoutMs;
+        if (timeoutMs !== undefined) {
+            const timer = setTimeout(() => controller.abort(new TimeoutError(domain, routeKey, timeoutMs)), timeoutMs);
+            clearTimer = () => clearTimeout(timer);
+            releases.push(clearTimer);
+        }
+
+        const callerSignal = callData?.signal;
+        if (callerSignal) {
+            const onAbort = () => controller.abort(new AbortError(domain, routeKey, callerSignal.reason));
+            if (callerSignal.aborted) {
+                onAbort();
+            } else {
+                callerSignal.addEventListener('abort', onAbort, { once: true });
+                releases.push(() => callerSignal.removeEventListener('abort', onAbort));
             }
         }
 
+        if (callData?.takeLatest) {
+            const key = `${domain}.${routeKey}`;
+            this.latestCalls.get(key)?.abort(new AbortError(domain, routeKey, 'superseded'));
+            this.latestCalls.set(key, controller);
+            releases.push(() => {
+                if (this.latestCalls.get(key) === controller) this.latestCalls.delete(key);
+            });
+        }
+
+        return { signal: controller.signal, release: () => releases.forEach(release => release()), clearTimer };
+    }
+
+    // Builds the request URL from the route path, params and query
+    private buildRequestUrl(routeInfo: RouteSchema, callData: { params?: unknown; query?: unknown } | undefined): string {
+        const urlPath = this.buildUrlPath(routeInfo.path, callData?.params as Record<string, unknown> | undefined);
         const url = new URL(this.getBaseUrlWithPrefix() + urlPath);
 
         if (callData?.query) {
@@ -319,30 +1704,102 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
             }
         }
 
+        return url.toString();
+    }
+
+    // Builds the request headers from the persistent headers and the call's headers and cookies
+    private buildRequestHeaders(callData: { headers?: unknown; cookies?: unknown } | undefined): Record<string, string> {
         const requestHeaders: Record<string, string> = {
             ...this.persistentHeaders,
             'Content-Type': 'application/json', // Default, can be overridden by callData.headers or persistentHeaders
-            ...(callData?.headers || {}),
+            ...stringifyRecord(callData?.headers as Record<string, unknown> | undefined),
         };
 
+        // Browsers refuse to set the Cookie header from script; there the cookies come from the cookie jar instead.
+        if (callData?.cookies) {
+            const cookieHeader = Object.entries(stringifyRecord(callData.cookies as Record<string, unknown>))
+                .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+                .join('; ');
+            if (cookieHeader) {
+                requestHeaders['Cookie'] = requestHeaders['Cookie'] ? `${requestHeaders['Cookie']}; ${cookieHeader}` : cookieHeader;
+            }
+        }
+
+        return requestHeaders;
+    }
+
+    // Builds and sends the request for callApiResult and maps the response to the ApiCallResult union
+    private async performCall<
+        TDomain extends keyof TActualDef['endpoints'],
+        TRouteKey extends keyof TActualDef['endpoints'][TDomain]
+    >(
+        domain: TDomain,
+        routeKey: TRouteKey,
+        callData: CallApiOptions<TActualDef, TDomain, TRouteKey> | undefined,
+        signal: AbortSignal
+    ): Promise<ApiCallResult<TActualDef, TDomain, TRouteKey>> {
+        const routeInfo = this.apiDefinitionObject.endpoints[domain as string][routeKey as string] as RouteSchema; // Accessing from TActualDef instance
+
+        if (!routeInfo || typeof routeInfo.path !== 'string') {
+            throw new Error(`API route configuration ${String(domain)}.${String(routeKey)} not found or invalid.`);
+        }
+
+        if (callData?.validateRequest ?? this.validateRequests) {
+            const validationError = validateCallInputs(routeInfo, callData);
+            if (validationError) {
+                // Same shape as a 422 from the server
+                return createLocalErrorResult(validationError) as unknown as Extract<ApiCallResult<TActualDef, TDomain, TRouteKey>, { status: 422 }>;
+            }
+        }
+
+        const url = this.buildRequestUrl(routeInfo, callData);
+        const requestHeaders = this.buildRequestHeaders(callData);
+
         const adapterRequestOptions: HttpRequestOptions = {
             method: routeInfo.method,
             headers: requestHeaders,
+            signal,
         };
 
-        if (routeInfo.method !== 'GET' && routeInfo.method !== 'HEAD' && callData?.body !== undefined) {
-            adapterRequestOptions.body = JSON.stringify(callData.body);
+        const declaresRedirects = Object.values(routeInfo.responses).some(schema => isRedirectResponse(schema));
+        const redirectMode = callData?.redirect ?? (declaresRedirects ? 'manual' : undefined);
+        if (redirectMode) {
+            adapterRequestOptions.redirect = redirectMode;
         }
 
-        let adapterResponse: HttpResponse;
-        try {
-            adapterResponse = await this.adapter.request(url.toString(), adapterRequestOptions);
-        } catch (networkError) {
-            const errorMessage = networkError instanceof Error ? networkError.message : `Unknown network error calling API ${String(domain)}.${String(routeKey)}`;
-            console.error(`Network error for ${String(domain)}.${String(routeKey)}:`, networkError);
-            throw new Error(`Network error: ${errorMessage}`);
+        if (routeInfo.fileUpload) {
+            // Upload routes are always sent as multipart, so body fields arrive the same way with or without files
+            const files = (callData?.files ?? {}) as Record<string, Blob | Blob[] | undefined>;
+            const uploadError = validateUploadFiles(routeInfo.fileUpload, files);
+            if (uploadError) {
+                return createLocalErrorResult(uploadError) as unknown as Extract<ApiCallResult<TActualDef, TDomain, TRouteKey>, { status: 422 }>;
+            }
+            adapterRequestOptions.body = buildUploadFormData(callData?.body, files);
+            // The adapter sets the multipart Content-Type including its boundary
+            for (const name of Object.keys(requestHeaders)) {
+                if (name.toLowerCase() === 'content-type') delete requestHeaders[name];
+            }
+        } else if (routeInfo.method !== 'GET' && routeInfo.method !== 'HEAD' && callData?.body !== undefined) {
+            adapterRequestOptions.body = JSON.stringify(callData.body);
         }
 
+        const isIdempotent = routeInfo.idempotent ?? IDEMPOTENT_METHODS.includes(routeInfo.method);
+        const retryPolicy = callData?.retry === false || !isIdempotent || !(this.retryPolicy || callData?.retry)
+            ? undefined
+            : { ...this.retryPolicy, ...callData?.retry };
+
+        const adapterResponse = await this.sendRequest(
+            () => ({
+                domain: String(domain),
+                routeKey: String(routeKey),
+                url,
+                // Interceptors may mutate the options, so every attempt starts from a fresh copy
+                options: { ...adapterRequestOptions, headers: { ...requestHeaders } }
+            }),
+            retryPolicy,
+            signal
+        );
+
         const runtimeStatus = adapterResponse.status;
 
         // Directly use TDomain and TRouteKey with GetRoute, using TActualDef
@@ -362,50 +1819,33 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
         // apiResultPayload now uses ApiCallResult with TActualDef
         let apiResultPayload: ApiCallResult<TActualDef, TDomain, TRouteKey>;
 
-        if (currentStatusLiteral === 204) {
+        if (isNoBodyStatus(currentStatusLiteral)) {
             apiResultPayload = {
-                status: 204 as const,
-                data: null, // data is null for 204
+                status: currentStatusLiteral,
+                data: null, // data is null for 204, 205 and 304
                 rawResponse: adapterResponse.getRawResponse(),
-            } as Extract<ApiCallResult<TActualDef, TDomain, TRouteKey>, { status: 204 }>;
+            } as unknown as Extract<ApiCallResult<TActualDef, TDomain, TRouteKey>, { status: HttpNoBodyStatusCode }>;
         } else {
             let responseBodyJson: any;
             const contentType = adapterResponse.headers.get("content-type");
             const contentDisposition = adapterResponse.headers.get("content-disposition");
 
-            // Check if content-disposition header is present and trigger download
-            if (contentDisposition) {
-                const responseText = await adapterResponse.text();
-
-                // Extract filename from content-disposition header if available
-                let filename = 'download';
-                const filenameMatch = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
-                if (filenameMatch && filenameMatch[1]) {
-                    filename = filenameMatch[1].replace(/['"]/g, '');
-                }
-
-                // Create blob and trigger download (browser environment)
-                if (typeof globalThis !== 'undefined' &&
-                    'window' in globalThis &&
-                    'document' in globalThis &&
-                    'Blob' in globalThis) {
-                    const win = (globalThis as any).window;
-                    const doc = (globalThis as any).document;
-                    const BlobConstructor = (globalThis as any).Blob;
-
-                    const blob = new BlobConstructor([responseText], { type: contentType || 'application/octet-stream' });
-                    const url = win.URL.createObjectURL(blob);
-                    const link = doc.createElement('a');
-                    link.href = url;
-                    link.download = filename;
-                    doc.body.appendChild(link);
-                    link.click();
-                    doc.body.removeChild(link);
-                    win.URL.revokeObjectURL(url);
-                }
+            const bodyKind = getResponseBodyKind(routeInfo.responses[runtimeStatus]);
 
-                // For non-JSON content, set the raw content as data
-                responseBodyJson = { data: responseText };
+            if (getResponseItemSchema(routeInfo.responses[runtimeStatus]) && contentType?.includes(JSON_LINES_CONTENT_TYPE)) {
+                // JsonLinesResponse: the items are collected into the array the status declares
+                responseBodyJson = { data: parseJsonLines(await adapterResponse.text()) };
+            } else if (bodyKind && currentStatusLiteral !== 422) {
+                responseBodyJson = {
+                    data: {
+                        body: await readResponseBody(adapterResponse, bodyKind),
+                        contentType: contentType ?? undefined,
+                        filename: parseContentDispositionFilename(contentDisposition)
+                    }
+                };
+            } else if (contentDisposition) {
+                // Attachments on statuses not declared with FileResponse/TextResponse are read as text
+                responseBodyJson = { data: await adapterResponse.text() };
             } else if (contentType && contentType.includes("application/json")) {
                 try {
                     responseBodyJson = await adapterResponse.json();
@@ -424,6 +1864,9 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
                     console.warn(`API ${String(domain)}.${String(routeKey)}: Received non-JSON response for status ${currentStatusLiteral}. Response: ${responseText}`);
                     // responseBodyJson remains undefined or as is, data extraction below will handle it.
                 }
+            } else if (isRedirectResponse(routeInfo.responses[runtimeStatus])) {
+                // Redirects carry no data; whatever body the server attached is ignored
+                responseBodyJson = { data: null };
             } else {
                 // Handle non-JSON content types for successful responses
                 const responseText = await adapterResponse.text();
@@ -450,7 +1893,26 @@ export class ApiClient<TActualDef extends BaseApiDefinitionSchema> { // Made gen
             }
         }
 
-        const handler = handlers[apiResultPayload.status as keyof TInferredHandlers];
-        return handler(apiResultPayload as any); // Reverting to `as any` as TS struggles with direct narrowing here
+        const responseSchema = routeInfo.responses[runtimeStatus];
+        if ((callData?.validateResponse ?? this.validateResponses) && !isNoBodyStatus(currentStatusLiteral) && !isRedirectResponse(responseSchema) && !getResponseBodyKind(responseSchema)) {
+            const payload = apiResultPayload as { data?: unknown; error?: UnifiedError };
+            const isErrorPayload = currentStatusLiteral === 422;
+            const validation = responseSchema.safeParse(isErrorPayload ? { error: payload.error } : { data: payload.data });
+
+            if (!validation.success) {
+                const error = new ResponseValidationError(String(domain), String(routeKey), runtimeStatus, validation.error.issues, isErrorPayload ? payload.error : payload.data);
+                if (!this.onResponseValidationError) throw error;
+                this.onResponseValidationError(error);
+            } else if (!isErrorPayload) {
+                payload.data = (validation.data as { data: unknown }).data;
+            }
+        }
+
+        const responseHeadersSchema = getResponseHeadersSchema(responseSchema);
+        if (responseHeadersSchema) {
+            (apiResultPayload as { headers?: Record<string, unknown> }).headers = readResponseHeaders(adapterResponse.headers, responseHeadersSchema);
+        }
+
+        return apiResultPayload;
     }
 }
@@ -0,0 +1,859 @@
+import { z } from 'zod';
+import { ApiDefinitionSchema, RouteSchema, ErrorHandler, HttpError, HttpMethod, ResponseBodyKind, ResponseFileInput, serializeResponseHeaders, isNoBodyStatus, mapZodError, getResponseBodyKind, getResponseItemSchema, JSON_LINES_CONTENT_TYPE } from './definition';
+import type { SpecificRouteHandler } from './router';
+import type { ObjectHandlers, AnyMiddleware, EndpointMiddleware, SimpleMiddleware } from './object-handlers';
+
+// --- Normalized Request / Response ---
+
+// A framework-independent view of an incoming request, built by a server adapter
+export interface NormalizedRequest {
+    method: string;
+    path: string;
+    url: string;
+    // Named wildcards ('*path') hold their segments, as in Express 5
+    params: Record<string, string | string[]>;
+    query: Record<string, unknown>;
+    // Header names must be lowercased, as in Node's IncomingMessage and the Fetch API
+    headers: Record<string, string | string[] | undefined>;
+    // Parsed from the Cookie header when the adapter does not provide them
+    cookies?: Record<string, string>;
+    // The already-read body (JSON or form fields); undefined when the request has none
+    body?: unknown;
+    file?: unknown;
+    files?: unknown;
+    ip?: string;
+    // Context set by framework-level middleware before the pipeline runs
+    ctx?: Record<string, unknown>;
+    onClose?: (callback: () => void) => void;
+}
+
+// A framework-independent response produced by the pipeline, written out by a server adapter
+export type NormalizedResponse =
+    | { type: 'json'; status: number; headers: Record<string, string>; body: unknown }
+    | { type: 'empty'; status: number; headers: Record<string, string> }
+    | { type: 'raw'; status: number; headers: Record<string, string>; body: unknown }
+    | { type: 'stream'; status: number; headers: Record<string, string>; stream: AsyncIterable<string> };
+
+// Custom response interface for framework-agnostic middleware
+export interface MiddlewareResponse {
+    respond(status: number, data: any, headers?: Record<string, unknown>): void;
+    status(code: number): this;
+    json(data: any): void;
+    setHeader(name: string, value: string): void;
+    end(): void;
+    onResponse(callback: (status: number, data: any) => void): void;
+}
+
+// The response object handed to middlewares, handlers and error handlers
+export interface PipelineResponse extends MiddlewareResponse {
+    respondContentType(status: number, data: unknown, contentType: string): void;
+    setHeader(name: string, value: string): this;
+    getHeaders(): Record<string, string>;
+    startSSE(options?: SSEOptions): void;
+    streamSSE(eventName?: string, data?: unknown, id?: string): void;
+    waitForSSEDrain(): Promise<void>;
+    streamItem(item: unknown): void;
+    endStream(): void;
+}
+
+// Options for res.startSSE; defaults for every stream can be passed when registering the handlers
+export interface SSEOptions {
+    // Sends a comment line at this interval, so proxies and load balancers keep an idle stream open
+    heartbeatMs?: number;
+    // Sent as the stream's `retry:` field: how long clients wait before reconnecting
+    retryMs?: number;
+    // CORS headers of the stream; defaults to any origin. false leaves CORS to other middleware.
+    cors?: { origin: string; allowHeaders?: string } | false;
+}
+
+// --- Server Adapter Interface ---
+
+// A single route as seen by a server adapter
+export interface AdapterRoute {
+    domain: string;
+    routeKey: string;
+    method: HttpMethod;
+    // Full Express-style path including the definition prefix, e.g. '/api/users/:id'
+    path: string;
+    definition: RouteSchema;
+    // Runs the shared pipeline (middlewares, validation, handler, error handling) for one request
+    handle(request: NormalizedRequest, native?: PipelineNative): Promise<NormalizedResponse>;
+}
+
+// Framework objects the req/res given to middlewares and handlers inherit from, so framework APIs stay reachable
+export interface PipelineNative {
+    request?: object;
+    response?: object;
+}
+
+// Implement this to serve an API definition from a server framework other than Express or Hono
+export interface ServerAdapter<TApp> {
+    registerRoute(app: TApp, route: AdapterRoute): void;
+}
+
+// --- Request Preprocessing ---
+
+// Unwraps ZodOptional/ZodDefault wrappers to find the schema that decides how a string is coerced
+function unwrapCoercionSchema(fieldSchema: z.ZodTypeAny): z.ZodTypeAny {
+    let innerSchema = fieldSchema;
+    while (innerSchema instanceof z.ZodOptional || innerSchema instanceof z.ZodDefault) {
+        innerSchema = innerSchema._def.innerType as z.ZodTypeAny;
+    }
+    return innerSchema;
+}
+
+// Helper function to coerce string values (path params, query, headers, cookies) to the numbers
+// and booleans their schema expects
+export function preprocessParams(params: unknown, paramsSchema?: z.ZodTypeAny): unknown {
+    if (!paramsSchema || !params || typeof params !== 'object') return params;
+
+    // Create a copy to avoid mutating the original
+    const processedParams: Record<string, unknown> = { ...params };
+
+    // Get the shape of the schema if it's a ZodObject
+    if (paramsSchema instanceof z.ZodObject) {
+        const shape = paramsSchema.shape;
+
+        for (const [key, value] of Object.entries(processedParams)) {
+            if (typeof value === 'string' && shape[key]) {
+                const innerSchema = unwrapCoercionSchema(shape[key]);
+
+                // Convert based on the inner schema type
+                if (innerSchema instanceof z.ZodNumber) {
+                    const numValue = Number(value);
+                    if (!isNaN(numValue)) {
+                        processedParams[key] = numValue;
+                    }
+                } else if (innerSchema instanceof z.ZodBoolean) {
+                    if (value === 'true') {
+                        processedParams[key] = true;
+                    } else if (value === 'false') {
+                        processedParams[key] = false;
+                    }
+                }
+            }
+        }
+    }
+
+    return processedParams;
+}
+
+// Helper function to coerce multipart body fields, which always arrive as text: numbers and booleans
+// the way params are, objects and arrays from the JSON the client sends them as
+function preprocessMultipartBody(body: unknown, bodySchema: z.ZodTypeAny): unknown {
+    const processedBody = preprocessParams(body, bodySchema);
+    if (!(bodySchema instanceof z.ZodObject) || !processedBody || typeof processedBody !== 'object') return processedBody;
+
+    for (const [key, value] of Object.entries(processedBody)) {
+        const fieldSchema = bodySchema.shape[key];
+        if (typeof value !== 'string' || !fieldSchema) continue;
+
+        const innerSchema = unwrapCoercionSchema(fieldSchema);
+        if (innerSchema instanceof z.ZodObject || innerSchema instanceof z.ZodArray || innerSchema instanceof z.ZodRecord) {
+            try {
+                (processedBody as Record<string, unknown>)[key] = JSON.parse(value);
+            } catch {
+                // Left as text, so validation reports the field
+            }
+        }
+    }
+
+    return processedBody;
+}
+
+// Helper function to pick the declared headers out of the incoming (lowercased) header map.
+// Header names are case-insensitive, so schema keys are looked up in lowercase and repeated
+// headers are joined the same way Node joins most of them.
+function preprocessHeaders(headers: Record<string, string | string[] | undefined>, headersSchema?: z.ZodTypeAny): unknown {
+    if (!headersSchema || !(headersSchema instanceof z.ZodObject)) return headers;
+
+    const picked: Record<string, string> = {};
+    for (const key of Object.keys(headersSchema.shape)) {
+        const value = headers[key.toLowerCase()];
+        if (value !== undefined) {
+            picked[key] = Array.isArray(value) ? value.join(', ') : value;
+        }
+    }
+
+    return preprocessParams(picked, headersSchema);
+}
+
+// Helper function to parse a raw Cookie header
+export function parseCookieHeader(cookieHeader?: string | string[]): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    const header = Array.isArray(cookieHeader) ? cookieHeader.join('; ') : cookieHeader;
+    if (!header) return cookies;
+
+    for (const pair of header.split(';')) {
+        const separatorIndex = pair.indexOf('=');
+        if (separatorIndex === -1) continue;
+
+        const name = pair.slice(0, separatorIndex).trim();
+        let value = pair.slice(separatorIndex + 1).trim();
+        if (value.startsWith('"') && value.endsWith('"')) {
+            value = value.slice(1, -1);
+        }
+        if (name && !(name in cookies)) {
+            try {
+                cookies[name] = decodeURIComponent(value);
+            } catch {
+                cookies[name] = value;
+            }
+        }
+    }
+
+    return cookies;
+}
+
+// Validates params, query, headers, cookies and body against the route schema; throws a ZodError on failure
+function parseRequest(route: RouteSchema, request: NormalizedRequest) {
+    const params = route.params
+        ? route.params.parse(preprocessParams(request.params, route.params))
+        : request.params;
+
+    const query = route.query
+        ? route.query.parse(preprocessParams(request.query, route.query))
+        : request.query;
+
+    // Headers are merged back over the raw header map so undeclared headers stay readable
+    const headers = route.headers
+        ? { ...request.headers, ...route.headers.parse(preprocessHeaders(request.headers, route.headers)) as Record<string, unknown> }
+        : request.headers;
+
+    const rawCookies = request.cookies ?? parseCookieHeader(request.headers.cookie);
+    const cookies = route.cookies
+        ? route.cookies.parse(preprocessParams(rawCookies, route.cookies))
+        : rawCookies;
+
+    // Multipart fields are text; JSON bodies are validated as they are
+    const contentType = request.headers['content-type'];
+    const isMultipart = String(Array.isArray(contentType) ? contentType[0] : contentType ?? '').toLowerCase().startsWith('multipart/form-data');
+    const body = route.body
+        ? route.body.parse(isMultipart ? preprocessMultipartBody(request.body, route.body) : request.body)
+        : request.body;
+
+    return { params, query, headers, cookies, body };
+}
+
+// --- Response Construction ---
+
+// Async iterable of SSE chunks; the handler pushes while the adapter drains.
+// onEnd runs once, when the handler ends the stream or the adapter stops reading it (client disconnect).
+function createChunkStream(onEnd: () => void) {
+    const chunks: string[] = [];
+    let closed = false;
+    let wake: (() => void) | undefined;
+    let drainWaiters: Array<() => void> = [];
+
+    // The adapter asks for the next chunk once it has written the previous one out
+    const resolveDrained = () => {
+        const waiters = drainWaiters;
+        drainWaiters = [];
+        waiters.forEach(resolve => resolve());
+    };
+
+    const notify = () => {
+        const resolveWaiting = wake;
+        wake = undefined;
+        resolveWaiting?.();
+    };
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        notify();
+        resolveDrained();
+        onEnd();
+    };
+
+    return {
+        push(chunk: string) {
+            if (closed) return;
+            chunks.push(chunk);
+            notify();
+        },
+        close,
+        // Resolves once every pushed chunk has been written out (or the stream has ended)
+        drained(): Promise<void> {
+            // Nothing left to write when the adapter is already waiting for the next chunk
+            if (closed || (chunks.length === 0 && wake)) return Promise.resolve();
+            return new Promise<void>(resolve => { drainWaiters.push(resolve); });
+        },
+        [Symbol.asyncIterator](): AsyncIterator<string> {
+            return {
+                async next() {
+                    if (chunks.length === 0) resolveDrained();
+                    while (chunks.length === 0 && !closed) {
+                        await new Promise<void>(resolve => { wake = resolve; });
+                    }
+                    return chunks.length > 0
+                        ? { value: chunks.shift() as string, done: false }
+                        : { value: undefined, done: true };
+                },
+                // Also ends a pending next(), so a cancelled response stops at once
+                async return() {
+                    chunks.length = 0;
+                    close();
+                    return { value: undefined, done: true };
+                }
+            };
+        }
+    };
+}
+
+// Turns the SSE chunks of a stream response into a Fetch API body that sends each chunk as soon as it is pushed.
+// Cancelling the body (the client went away) stops the stream, and onCancel is called.
+export function toReadableStream(stream: AsyncIterable<string>, onCancel?: () => void): ReadableStream<Uint8Array> {
+    const iterator = stream[Symbol.asyncIterator]();
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const { value, done } = await iterator.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(encoder.encode(value));
+            }
+        },
+        async cancel() {
+            await iterator.return?.();
+            onCancel?.();
+        }
+    });
+}
+
+function generalErrorBody(message: string, withData = true) {
+    const error = [{ field: "general", type: "general", message }];
+    return withData ? { data: null, error } : { error };
+}
+
+// Builds the raw response for a FileResponse/TextResponse status
+function createFileResponse(status: number, kind: ResponseBodyKind, file: ResponseFileInput, headers: Record<string, string>): NormalizedResponse {
+    const responseHeaders: Record<string, string> = {
+        ...headers,
+        'Content-Type': file.contentType ?? (kind === 'text' ? 'text/plain; charset=utf-8' : 'application/octet-stream')
+    };
+    if (file.filename) {
+        // Plain filename for old clients (ASCII only, as header values must be), filename* for the exact name
+        const asciiName = file.filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+        responseHeaders['Content-Disposition'] = `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`;
+    }
+    const body = file.body instanceof ArrayBuffer ? new Uint8Array(file.body) : file.body;
+    return { type: 'raw', status, headers: responseHeaders, body };
+}
+
+// Builds the response object shared by middlewares, handlers and the error handler.
+// Every write goes through send(), which settles the pipeline with the first response only.
+function createPipelineResponse(
+    route: RouteSchema,
+    routeLabel: string,
+    send: (response: NormalizedResponse) => void,
+    base?: object,
+    sseDefaults: SSEOptions = {}
+): PipelineResponse {
+    const pendingHeaders: Record<string, string> = {};
+    const responseCallbacks: Array<Parameters<MiddlewareResponse['onResponse']>[0]> = [];
+    let pendingStatus = 200;
+    let stream: ReturnType<typeof createChunkStream> | undefined;
+
+    const res = Object.create(base ?? {}) as PipelineResponse;
+
+    const sendJson = (status: number, body: unknown) => send({ type: 'json', status, headers: { ...pendingHeaders }, body });
+
+    // Status declared with JsonLinesResponse, streamed by res.streamItem
+    const itemStatus = Object.keys(route.responses).map(Number).find(status => getResponseItemSchema(route.responses[status]));
+    const startItemStream = (status: number) => {
+        stream = createChunkStream(() => undefined);
+        send({ type: 'stream', status, headers: { ...pendingHeaders, 'Content-Type': JSON_LINES_CONTENT_TYPE }, stream });
+    };
+
+    Object.assign(res, {
+        respond(status: number, data: unknown, headers?: Record<string, unknown>) {
+            // Call any registered response callbacks from middleware
+            responseCallbacks.forEach(callback => {
+                try {
+                    callback(status, data);
+                } catch (error) {
+                    console.error('Error in response callback:', error);
+                }
+            });
+
+            const responseSchema = route.responses[status];
+
+            if (!responseSchema) {
+                console.error(`No response schema defined for status ${status} in route ${routeLabel}`);
+                sendJson(500, generalErrorBody("Internal server error: Undefined response schema for status."));
+                return;
+            }
+
+            // Validate declared response headers (e.g. Location on 201) the same way as the body
+            const headersResult = serializeResponseHeaders(responseSchema, headers);
+
+            // FileResponse/TextResponse bodies are sent as they are, without the { data } wrapper
+            const bodyKind = getResponseBodyKind(responseSchema);
+            if (bodyKind && headersResult.success) {
+                send(createFileResponse(status, bodyKind, data as ResponseFileInput, { ...pendingHeaders, ...headersResult.headers }));
+                return;
+            }
+
+            // 422 carries the UnifiedError in the error field, every other status carries data
+            const responseBody = status === 422
+                ? { data: null, error: data }
+                : { data: data, error: null };
+
+            const validationResult = responseSchema.safeParse(responseBody);
+
+            if (!headersResult.success) {
+                console.error(`FATAL: Response headers failed Zod validation for status ${status} in route ${routeLabel}.`, headersResult.error.issues);
+                sendJson(500, generalErrorBody("Internal server error: Response headers failed validation."));
+            } else if (validationResult.success) {
+                const responseHeaders = { ...pendingHeaders, ...headersResult.headers };
+                // 204/205/304 responses must not have a body
+                if (isNoBodyStatus(status)) {
+                    send({ type: 'empty', status, headers: responseHeaders });
+                } else if (getResponseItemSchema(responseSchema)) {
+                    // JsonLinesResponse statuses are sent as NDJSON, one item per line
+                    const lines = createChunkStream(() => undefined);
+                    (validationResult.data as { data: unknown[] }).data.forEach(item => lines.push(`${JSON.stringify(item)}\n`));
+                    lines.close();
+                    send({ type: 'stream', status, headers: { ...responseHeaders, 'Content-Type': JSON_LINES_CONTENT_TYPE }, stream: lines });
+                } else {
+                    send({ type: 'json', status, headers: responseHeaders, body: validationResult.data });
+                }
+            } else {
+                console.error(
+                    `FATAL: Constructed response body failed Zod validation for status ${status} in route ${routeLabel}.`,
+                    validationResult.error.issues,
+                    'Provided data:', data,
+                    'Constructed response body:', responseBody
+                );
+                sendJson(500, generalErrorBody("Internal server error: Constructed response failed validation."));
+            }
+        },
+        respondContentType(status: number, data: unknown, contentType: string) {
+            // Raw data is sent without JSON wrapping or validation
+            send({ type: 'raw', status, headers: { ...pendingHeaders, 'Content-Type': contentType }, body: data });
+        },
+        status(code: number) {
+            pendingStatus = code;
+            return res;
+        },
+        json(data: unknown) {
+            sendJson(pendingStatus, data);
+        },
+        // Express's inherited send, redirect and sendStatus finish by calling end with the body
+        end(chunk?: unknown) {
+            if (chunk === undefined || typeof chunk === 'function') {
+                send({ type: 'empty', status: pendingStatus, headers: { ...pendingHeaders } });
+            } else {
+                send({ type: 'raw', status: pendingStatus, headers: { ...pendingHeaders }, body: chunk });
+            }
+        },
+        setHeader(name: string, value: string) {
+            pendingHeaders[name] = value;
+            return res;
+        },
+        // Header lookups are case-insensitive, as in Node, so Express's res.get and res.append see pending headers
+        getHeader(name: string) {
+            const key = Object.keys(pendingHeaders).find(header => header.toLowerCase() === name.toLowerCase());
+            return key === undefined ? undefined : pendingHeaders[key];
+        },
+        getHeaders() {
+            return { ...pendingHeaders };
+        },
+        removeHeader(name: string) {
+            Object.keys(pendingHeaders)
+                .filter(header => header.toLowerCase() === name.toLowerCase())
+                .forEach(header => delete pendingHeaders[header]);
+        },
+        onResponse(callback: Parameters<MiddlewareResponse['onResponse']>[0]) {
+            responseCallbacks.push(callback);
+        },
+        // SSE streaming methods
+        startSSE(options: SSEOptions = {}) {
+            if (stream) return;
+            const { heartbeatMs, retryMs, cors = { origin: '*', allowHeaders: 'Cache-Control' } } = { ...sseDefaults, ...options };
+            let heartbeat: ReturnType<typeof setInterval> | undefined;
+            stream = createChunkStream(() => clearInterval(heartbeat));
+            if (heartbeatMs) {
+                const sseStream = stream;
+                heartbeat = setInterval(() => sseStream.push(': keep-alive\n\n'), heartbeatMs);
+            }
+            if (retryMs !== undefined) {
+                stream.push(`retry: ${retryMs}\n\n`);
+            }
+
+            const corsHeaders: Record<string, string> = cors
+                ? { 'Access-Control-Allow-Origin': cors.origin, ...(cors.allowHeaders ? { 'Access-Control-Allow-Headers': cors.allowHeaders } : {}) }
+                : {};
+            send({
+                type: 'stream',
+                status: pendingStatus,
+                headers: {
+                    ...pendingHeaders,
+                    'Content-Type': 'text/event-stream',
+                    'Cache-Control': 'no-cache',
+                    'Connection': 'keep-alive',
+                    ...corsHeaders
+                },
+                stream
+            });
+        },
+        streamSSE(eventName?: string, data?: unknown, id?: string) {
+            // Routes with an SSE contract only send declared events whose data matches their schema
+            if (route.sse) {
+                const eventSchema = route.sse[eventName ?? 'message'];
+                if (!eventSchema) {
+                    console.error(`SSE event "${eventName ?? 'message'}" is not declared for route ${routeLabel}; the event was not sent.`);
+                    return;
+                }
+                const validationResult = eventSchema.safeParse(data);
+                if (!validationResult.success) {
+                    console.error(
+                        `FATAL: SSE event "${eventName ?? 'message'}" failed Zod validation in route ${routeLabel}; the event was not sent.`,
+                        validationResult.error.issues,
+                        'Provided data:', data
+                    );
+                    return;
+                }
+                data = validationResult.data;
+            }
+
+            if (!stream) {
+                res.startSSE();
+            }
+            let event = '';
+            if (eventName) event += `event: ${eventName}\n`;
+            if (id) event += `id: ${id}\n`;
+            event += `data: ${JSON.stringify(data)}\n\n`;
+            stream!.push(event);
+        },
+        waitForSSEDrain() {
+            return stream ? stream.drained() : Promise.resolve();
+        },
+        streamItem(item: unknown) {
+            if (itemStatus === undefined) {
+                console.error(`No JsonLinesResponse status is declared for route ${routeLabel}; the item was not sent.`);
+                return;
+            }
+
+            const validationResult = getResponseItemSchema(route.responses[itemStatus])!.safeParse(item);
+            if (!validationResult.success) {
+                console.error(
+                    `FATAL: Stream item failed Zod validation in route ${routeLabel}; the item was not sent.`,
+                    validationResult.error.issues,
+                    'Provided item:', item
+                );
+                return;
+            }
+
+            // The first item sends the headers; the stream then stays open until endStream()
+            if (!stream) {
+                startItemStream(itemStatus);
+            }
+            stream!.push(`${JSON.stringify(validationResult.data)}\n`);
+        },
+        endStream() {
+            // An item stream without any items is still a (empty) NDJSON response
+            if (!stream && itemStatus !== undefined) {
+                startItemStream(itemStatus);
+            }
+            stream?.close();
+        }
+    });
+
+    // Express's writers read and set the status through statusCode, so it shares the pending status
+    Object.defineProperty(res, 'statusCode', {
+        get: () => pendingStatus,
+        set: (code: number) => { pendingStatus = code; },
+        enumerable: true,
+        configurable: true
+    });
+
+    return res;
+}
+
+// --- Pipeline ---
+
+export interface PipelineOptions {
+    domain: string;
+    routeKey: string;
+    definition: RouteSchema;
+    handler: (req: any, res: any) => Promise<void> | void;
+    middlewares?: EndpointMiddleware<any>[];
+    errorHandler?: ErrorHandler;
+    sse?: SSEOptions;   // Defaults for res.startSSE
+}
+
+// Turns a thrown error into a response: HttpError -> declared response, custom errorHandler,
+// ZodError -> 422, anything else -> 500
+function handlePipelineError(error: unknown, options: PipelineOptions, res: PipelineResponse, send: (response: NormalizedResponse) => void) {
+    const { definition } = options;
+
+    // A thrown HttpError is a declared response, so it is sent (and validated) through respond
+    if (error instanceof HttpError) {
+        res.respond(error.status, error.data, error.headers);
+        return;
+    }
+
+    // Check if custom error handler is provided
+    if (options.errorHandler) {
+        const handled = options.errorHandler(error, definition, definition.method, definition.path, res as unknown as Parameters<ErrorHandler>[4]);
+        if (handled) {
+            return; // Error was handled by custom handler
+        }
+    }
+
+    // Headers set before the error (CORS, request IDs) are kept on the error response
+    const headers = res.getHeaders();
+
+    if (error instanceof z.ZodError) {
+        const mappedErrors = mapZodError(error);
+        const errorResponseBody = { data: null, error: mappedErrors };
+        const schema422 = definition.responses[422];
+
+        if (schema422) {
+            const validationResult = schema422.safeParse(errorResponseBody);
+            if (validationResult.success) {
+                send({ type: 'json', status: 422, headers, body: validationResult.data });
+            } else {
+                console.error("FATAL: Constructed 422 error response failed its own schema validation.", validationResult.error.issues);
+                send({ type: 'json', status: 500, headers, body: generalErrorBody("Internal server error constructing validation error response.", false) });
+            }
+        } else {
+            console.error("Error: 422 schema not found for route, sending raw Zod errors.");
+            send({ type: 'json', status: 422, headers, body: { error: mappedErrors } });
+        }
+    } else if (error instanceof Error) {
+        console.error(`Error in ${definition.method} ${definition.path}:`, error.message, error.stack);
+        send({ type: 'json', status: 500, headers, body: generalErrorBody('Internal server error', false) });
+    } else {
+        console.error(`Unknown error in ${definition.method} ${definition.path}:`, error);
+        send({ type: 'json', status: 500, headers, body: generalErrorBody('An unknown error occurred', false) });
+    }
+}
+
+// Runs middlewares, request validation, the handler and error handling for one request.
+// Resolves with the first response written; a handler may keep streaming after that.
+export function runPipeline(options: PipelineOptions, request: NormalizedRequest, native: PipelineNative = {}): Promise<NormalizedResponse> {
+    const { domain, routeKey, definition, handler, middlewares = [] } = options;
+    const routeLabel = `${domain}/${routeKey}`;
+
+    return new Promise<NormalizedResponse>(resolve => {
+        let sent = false;
+        // Middlewares waiting for next(); sending the response releases them as well
+        const waiting = new Set<() => void>();
+        const send = (response: NormalizedResponse) => {
+            if (sent) {
+                console.error(`Response for ${routeLabel} was already sent; ignoring status ${response.status}.`);
+                return;
+            }
+            sent = true;
+            resolve(response);
+            waiting.forEach(release => release());
+            waiting.clear();
+        };
+
+        const res = createPipelineResponse(definition, routeLabel, send, native.response, options.sse);
+
+        // Middlewares share one request object, so anything they set (like ctx) reaches the handler
+        const middlewareReq = Object.create(native.request ?? {}, {
+            method: { value: request.method, writable: true, enumerable: true, configurable: true },
+            path: { value: request.path, writable: true, enumerable: true, configurable: true },
+            originalUrl: { value: request.url, writable: true, enumerable: true, configurable: true },
+            headers: { value: request.headers, writable: true, enumerable: true, configurable: true },
+            cookies: { value: request.cookies ?? parseCookieHeader(request.headers.cookie), writable: true, enumerable: true, configurable: true },
+            ip: { value: request.ip, writable: true, enumerable: true, configurable: true },
+            ctx: { value: request.ctx ?? {}, writable: true, enumerable: true, configurable: true },
+        });
+
+        const runHandler = async () => {
+            const parsed = parseRequest(definition, request);
+            const lastEventId = request.headers['last-event-id'];
+
+            // Unified API for client disconnection (undefined when the adapter cannot detect it)
+            const handlerReq = Object.create(middlewareReq, {
+                params: { value: parsed.params, writable: true, enumerable: true, configurable: true },
+                query: { value: parsed.query, writable: true, enumerable: true, configurable: true },
+                body: { value: parsed.body, writable: true, enumerable: true, configurable: true },
+                headers: { value: parsed.headers, writable: false, enumerable: true, configurable: false },
+                cookies: { value: parsed.cookies, writable: false, enumerable: true, configurable: false },
+                file: { value: request.file, writable: true, enumerable: true, configurable: true },
+                files: { value: request.files, writable: true, enumerable: true, configurable: true },
+                onClose: { value: request.onClose, writable: false, enumerable: true, configurable: false },
+                // The ID of the last SSE event a reconnecting client received, to resume the stream from
+                lastEventId: { value: Array.isArray(lastEventId) ? lastEventId[0] : lastEventId, writable: false, enumerable: true, configurable: false },
+            });
+
+            await handler(handlerReq, res);
+        };
+
+        // Koa-style chain: next() resolves once everything downstream has finished
+        const dispatch = async (index: number): Promise<void> => {
+            if (index === middlewares.length) {
+                return runHandler();
+            }
+
+            let downstream: Promise<void> | undefined;
+            let nextCalled: (() => void) | undefined;
+            const next = (error?: unknown) => {
+                if (error) {
+                    downstream = Promise.reject(error);
+                    // Awaited below once the middleware returns; avoid an unhandled rejection in between
+                    downstream.catch(() => undefined);
+                } else if (!downstream) {
+                    downstream = dispatch(index + 1);
+                }
+                nextCalled?.();
+                return downstream;
+            };
+
+            await middlewares[index](middlewareReq, res, next as Parameters<EndpointMiddleware>[2], { domain, routeKey } as Parameters<EndpointMiddleware>[3]);
+            // A middleware may call next() later, from a callback or a timer: the chain stays pending
+            // until it does or until a response is sent
+            if (!downstream && !sent) {
+                await new Promise<void>(resolve => {
+                    waiting.add(resolve);
+                    nextCalled = () => {
+                        waiting.delete(resolve);
+                        resolve();
+                    };
+                });
+            }
+            // Middlewares that call next() without awaiting it still wait for the rest of the chain
+            if (downstream) {
+                await downstream;
+            }
+        };
+
+        dispatch(0)
+            .catch(error => {
+                if (sent) {
+                    console.error(`Error in ${definition.method} ${definition.path} after the response was sent:`, error);
+                    return;
+                }
+                handlePipelineError(error, options, res, send);
+            })
+            .then(() => {
+                if (!sent) {
+                    console.error(`No response was set for ${routeLabel}`);
+                    send({ type: 'json', status: 500, headers: {}, body: generalErrorBody("Internal server error: No response set by handler.") });
+                }
+            });
+    });
+}
+
+// --- Registration ---
+
+// Helper function to build the full route path from the definition prefix and route path
+function joinRoutePath(prefix: string | undefined, path: string): string {
+    return prefix
+        ? `${prefix.startsWith('/') ? prefix : `/${prefix}`}${path}`.replace(/\/+/g, '/')
+        : path;
+}
+
+// Registers array-based handlers through a server adapter
+export function registerAdapterRouteHandlers<TDef extends ApiDefinitionSchema, TApp>(
+    adapter: ServerAdapter<TApp>,
+    app: TApp,
+    apiDefinition: TDef,
+    routeHandlers: Array<SpecificRouteHandler<TDef>>,
+    middlewares?: EndpointMiddleware<TDef>[],
+    errorHandler?: ErrorHandler,
+    sse?: SSEOptions
+) {
+    routeHandlers.forEach((specificHandlerIterationItem) => {
+        const { domain, routeKey, handler } = specificHandlerIterationItem as any; // Use 'as any' for simplicity in destructuring union
+
+        const routeDefinition = apiDefinition.endpoints[domain]?.[routeKey] as RouteSchema | undefined;
+
+        if (!routeDefinition) {
+            console.error(`Route definition not found for domain "${String(domain)}" and routeKey "${String(routeKey)}"`);
+            return;
+        }
+
+        const pipelineOptions: PipelineOptions = {
+            domain,
+            routeKey,
+            definition: routeDefinition,
+            handler,
+            middlewares,
+            errorHandler,
+            sse
+        };
+
+        adapter.registerRoute(app, {
+            domain,
+            routeKey,
+            method: routeDefinition.method,
+            path: joinRoutePath(apiDefinition.prefix, routeDefinition.path),
+            definition: routeDefinition,
+            handle: (request, native) => runPipeline(pipelineOptions, request, native)
+        });
+    });
+}
+
+// Transform object-based handlers to array format
+export function transformObjectHandlersToArray<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    objectHandlers: ObjectHandlers<TDef, Ctx>
+): Array<SpecificRouteHandler<TDef>> {
+    const handlerArray: Array<SpecificRouteHandler<TDef>> = [];
+
+    for (const domain in objectHandlers) {
+        if (Object.prototype.hasOwnProperty.call(objectHandlers, domain)) {
+            const domainHandlers = objectHandlers[domain];
+
+            for (const routeKey in domainHandlers) {
+                if (Object.prototype.hasOwnProperty.call(domainHandlers, routeKey)) {
+                    handlerArray.push({
+                        domain,
+                        routeKey,
+                        handler: domainHandlers[routeKey]
+                    } as SpecificRouteHandler<TDef>);
+                }
+            }
+        }
+    }
+
+    return handlerArray;
+}
+
+// Convert AnyMiddleware to EndpointMiddleware by checking function arity
+export function toEndpointMiddlewares<TDef extends ApiDefinitionSchema>(middlewares?: AnyMiddleware<TDef>[]): EndpointMiddleware<TDef>[] {
+    return middlewares?.map(middleware => {
+        // Check if middleware expects 4 parameters (including endpointInfo)
+        if (middleware && middleware.length === 4) {
+            return middleware as EndpointMiddleware<TDef>;
+        }
+        // It's a SimpleMiddleware, wrap it to ignore endpointInfo
+        return ((req, res, next) => {
+            return (middleware as SimpleMiddleware)(req, res, next);
+        }) as EndpointMiddleware<TDef>;
+    }) || [];
+}
+
+// Registers object-based handlers with any server framework through its adapter
+export function RegisterAdapterHandlers<
+    TDef extends ApiDefinitionSchema,
+    TApp,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    adapter: ServerAdapter<TApp>,
+    app: TApp,
+    apiDefinition: TDef,
+    objectHandlers: ObjectHandlers<TDef, Ctx>,
+    middlewares?: AnyMiddleware<TDef>[],
+    errorHandler?: ErrorHandler
+): void {
+    registerAdapterRouteHandlers(
+        adapter,
+        app,
+        apiDefinition,
+        transformObjectHandlersToArray(objectHandlers),
+        toEndpointMiddlewares(middlewares),
+        errorHandler
+    );
+}
@@ -17,8 +17,94 @@ export function CustomResponse<T>() {
     return new TsTypeMarker<T>();
 }
 
-// Type for schema input, can be Zod schema or our TS type marker
-type InputSchemaOrMarker = ZodTypeAny | TsTypeMarker<any>;
+// Marker class pairing a response schema with the headers that must accompany it
+export class ResponseHeadersMarker<TSchema extends ZodTypeAny | TsTypeMarker<any>, THeaders extends ZodTypeAny> {
+    readonly _isResponseHeadersMarker = true;
+
+    constructor(
+        readonly schema: TSchema,
+        readonly headers: THeaders
+    ) { }
+}
+
+// Marker class for a redirect response: no body and a typed Location header
+export class RedirectMarker<TLocation extends ZodTypeAny> extends ResponseHeadersMarker<z.ZodNull, z.ZodObject<{ Location: TLocation }>> {
+    readonly _isRedirectMarker = true;
+}
+
+// Helper function to declare a redirect response (301/302/303/307/308), optionally narrowing the Location value
+export function Redirect<TLocation extends ZodTypeAny = z.ZodString>(location?: TLocation) {
+    return new RedirectMarker<TLocation>(z.null(), z.object({ Location: (location ?? z.string()) as TLocation }));
+}
+
+// Helper function to declare response headers for a status, e.g. Location on 201 or Retry-After on 429
+export function ResponseWithHeaders<TSchema extends ZodTypeAny | TsTypeMarker<any>, THeaders extends ZodTypeAny>(
+    schema: TSchema,
+    headers: THeaders
+) {
+    return new ResponseHeadersMarker(schema, headers);
+}
+
+// How the client reads a non-JSON response body declared with FileResponse or TextResponse
+export type ResponseBodyKind = 'blob' | 'arrayBuffer' | 'stream' | 'text';
+
+// The client-side type of the body for each ResponseBodyKind
+export type ResponseBodyOfKind<TKind extends ResponseBodyKind> =
+    TKind extends 'blob' ? Blob
+    : TKind extends 'arrayBuffer' ? ArrayBuffer
+    : TKind extends 'stream' ? ReadableStream<Uint8Array>
+    : string;
+
+// The data of a FileResponse/TextResponse status on the client: the body plus what the response headers say about it
+export type ResponseFile<TBody> = {
+    body: TBody;
+    contentType: string | undefined;
+    filename: string | undefined; // From Content-Disposition
+};
+
+// The data a handler passes to res.respond for a FileResponse/TextResponse status
+export type ResponseFileInput = {
+    body: string | Uint8Array | ArrayBuffer;
+    contentType?: string; // Defaults to application/octet-stream, or text/plain for TextResponse
+    filename?: string;    // Sent as Content-Disposition: attachment
+};
+
+// Marker class for a non-JSON response body, read by the client as the given kind
+export class BodyKindMarker<TKind extends ResponseBodyKind> {
+    readonly _isBodyKindMarker = true;
+
+    constructor(readonly kind: TKind) { }
+}
+
+// Helper function to declare a binary response (e.g. a file download), returned to the client as a Blob, ArrayBuffer or ReadableStream
+export function FileResponse(): BodyKindMarker<'blob'>;
+export function FileResponse<TKind extends 'blob' | 'arrayBuffer' | 'stream'>(kind: TKind): BodyKindMarker<TKind>;
+export function FileResponse(kind: 'blob' | 'arrayBuffer' | 'stream' = 'blob') {
+    return new BodyKindMarker(kind);
+}
+
+// Helper function to declare a plain text response (CSV, HTML, ...), returned to the client as a string
+export function TextResponse() {
+    return new BodyKindMarker<'text'>('text');
+}
+
+// Marker class for a newline-delimited JSON (NDJSON) response, streamed item by item
+export class JsonLinesMarker<TItem extends ZodTypeAny> {
+    readonly _isJsonLinesMarker = true;
+
+    constructor(readonly item: TItem) { }
+}
+
+// Content type of JsonLinesResponse bodies
+export const JSON_LINES_CONTENT_TYPE = 'application/x-ndjson';
+
+// Helper function to declare a streamed NDJSON response; every line is one item validated against the item schema
+export function JsonLinesResponse<TItem extends ZodTypeAny>(item: TItem) {
+    return new JsonLinesMarker(item);
+}
+
+// Type for schema input, can be Zod schema, our TS type marker, or either of those with response headers
+type InputSchemaOrMarker = ZodTypeAny | TsTypeMarker<any> | ResponseHeadersMarker<any, any> | BodyKindMarker<any> | JsonLinesMarker<any>;
 
 // Define the structure for error details
 const errorDetailSchema = z.object({
@@ -31,6 +117,23 @@ const errorDetailSchema = z.object({
 const unifiedErrorSchema = z.array(errorDetailSchema).nullable(); // Nullable if no errors
 export type UnifiedError = z.infer<typeof unifiedErrorSchema>;
 
+// Maps Zod issues to the UnifiedError format sent with 422 responses
+export function mapZodError(error: z.ZodError): UnifiedError {
+    return error.issues.map(err => {
+        let errorType: 'param' | 'query' | 'body' | 'general' = 'general';
+        const pathZero = String(err.path[0]);
+        if (pathZero === 'params') errorType = 'param';
+        else if (pathZero === 'query') errorType = 'query';
+        else if (pathZero === 'body') errorType = 'body';
+
+        return {
+            field: err.path.join('.') || 'request',
+            message: err.message,
+            type: errorType,
+        };
+    });
+}
+
 // Type for custom error handler function
 export type ErrorHandler = (
     error: unknown,
@@ -54,36 +157,110 @@ const errorUnifiedResponseSchema = z.object({
     error: unifiedErrorSchema.refine(val => val !== null, { message: "Error list cannot be null for errorUnifiedResponseSchema" }), // Error list is mandatory
 });
 
-// Define allowed HTTP status codes
-export const HttpSuccessCodes = [200, 201, 202, 204] as const;
-export const HttpClientErrorCodes = [400, 401, 403, 404, 409] as const; // 422 is handled separately
-export const HttpServerErrorCodes = [500] as const;
+// Define allowed HTTP status codes (the standard 2xx-5xx registry)
+export const HttpSuccessCodes = [200, 201, 202, 203, 204, 205, 206, 207, 208, 226] as const;
+export const HttpRedirectCodes = [300, 301, 302, 303, 304, 305, 307, 308] as const;
+export const HttpClientErrorCodes = [
+    400, 401, 402, 403, 404, 405, 406, 407, 408, 409, 410, 411, 412, 413, 414, 415, 416, 417, 418,
+    421, 423, 424, 425, 426, 428, 429, 431, 451
+] as const; // 422 is handled separately
+export const HttpServerErrorCodes = [500, 501, 502, 503, 504, 505, 506, 507, 508, 510, 511] as const;
+
+// Status codes whose responses never carry a body
+export const HttpNoBodyCodes = [204, 205, 304] as const;
 
 export type HttpSuccessStatusCode = typeof HttpSuccessCodes[number];
+export type HttpRedirectStatusCode = typeof HttpRedirectCodes[number];
 export type HttpClientErrorStatusCode = typeof HttpClientErrorCodes[number];
 export type HttpServerErrorStatusCode = typeof HttpServerErrorCodes[number];
+export type HttpNoBodyStatusCode = typeof HttpNoBodyCodes[number];
 
 // Status codes that can be passed to createResponses (422 is added automatically by createResponses)
-export type AllowedInputStatusCode = HttpSuccessStatusCode | HttpClientErrorStatusCode | HttpServerErrorStatusCode;
+export type AllowedInputStatusCode = HttpSuccessStatusCode | HttpRedirectStatusCode | HttpClientErrorStatusCode | HttpServerErrorStatusCode;
 
 // All status codes that can appear in the 'responses' object of a route after createResponses
 export type AllowedResponseStatusCode = AllowedInputStatusCode | 422;
 
+// Input accepted by createResponses: the standard codes are suggested, any other 2xx-5xx code is allowed as a custom code
+type CreateResponsesInput = Partial<Record<AllowedInputStatusCode, InputSchemaOrMarker>> & { [customStatus: number]: InputSchemaOrMarker };
+
 // More precise return type for createResponses
 // InputSchemas keys are now constrained to AllowedInputStatusCode
-type CreateResponsesReturnType<InputSchemas extends Partial<Record<AllowedInputStatusCode, InputSchemaOrMarker>>> = {
+type CreateResponsesReturnType<InputSchemas extends CreateResponsesInput> = {
     // For each status KStatus provided in InputSchemas (which are AllowedInputStatusCode),
     // the response schema wraps InputSchemas[KStatus] in a success structure.
-    [KStatus in keyof InputSchemas]: InputSchemas[KStatus] extends TsTypeMarker<infer T>
-    ? z.ZodObject<{ data: z.ZodType<T> }> // If TsTypeMarker<T>, data infers to T
-    : InputSchemas[KStatus] extends ZodTypeAny
-    ? z.ZodObject<{ data: InputSchemas[KStatus] }> // If ZodTypeAny, data infers to z.infer<InputSchemas[KStatus]>
-    : never;
+    // Declared response headers are carried alongside the wrapper as `responseHeaders`.
+    [KStatus in keyof InputSchemas]: InputSchemas[KStatus] extends RedirectMarker<infer TLocation>
+    ? WrappedResponseSchema<z.ZodNull> & { readonly responseHeaders: z.ZodObject<{ Location: TLocation }>; readonly redirect: true }
+    : InputSchemas[KStatus] extends ResponseHeadersMarker<infer TSchema, infer THeaders>
+    ? WrappedResponseSchema<TSchema> & { readonly responseHeaders: THeaders }
+    : InputSchemas[KStatus] extends BodyKindMarker<infer TKind>
+    ? WrappedResponseSchema<TsTypeMarker<ResponseFile<ResponseBodyOfKind<TKind>>>> & { readonly bodyKind: TKind }
+    : InputSchemas[KStatus] extends JsonLinesMarker<infer TItem>
+    ? WrappedResponseSchema<z.ZodArray<TItem>> & { readonly jsonLines: TItem }
+    : WrappedResponseSchema<InputSchemas[KStatus]>;
 } & {
     // The 422 response is always the errorUnifiedResponseSchema.
     422: typeof errorUnifiedResponseSchema;
 };
 
+// Wraps a single response schema (or TS type marker) in the unified { data } structure
+type WrappedResponseSchema<TSchema> = TSchema extends TsTypeMarker<infer T>
+    ? z.ZodObject<{ data: z.ZodType<T> }> // If TsTypeMarker<T>, data infers to T
+    : TSchema extends ZodTypeAny
+    ? z.ZodObject<{ data: TSchema }> // If ZodTypeAny, data infers to z.infer<TSchema>
+    : never;
+
+// Helper function to read the response headers schema declared for a status via ResponseWithHeaders
+export function getResponseHeadersSchema(responseSchema: ZodTypeAny | undefined): ZodTypeAny | undefined {
+    return (responseSchema as { responseHeaders?: ZodTypeAny } | undefined)?.responseHeaders;
+}
+
+// Helper function to check whether a response schema was declared with Redirect()
+export function isRedirectResponse(responseSchema: ZodTypeAny | undefined): boolean {
+    return (responseSchema as { redirect?: boolean } | undefined)?.redirect === true;
+}
+
+// Helper function to read how the body of a status declared with FileResponse or TextResponse is read
+export function getResponseBodyKind(responseSchema: ZodTypeAny | undefined): ResponseBodyKind | undefined {
+    return (responseSchema as { bodyKind?: ResponseBodyKind } | undefined)?.bodyKind;
+}
+
+// Helper function to read the item schema of a status declared with JsonLinesResponse
+export function getResponseItemSchema(responseSchema: ZodTypeAny | undefined): ZodTypeAny | undefined {
+    return (responseSchema as { jsonLines?: ZodTypeAny } | undefined)?.jsonLines;
+}
+
+// Helper function to check whether a status must be sent without a body
+export function isNoBodyStatus(status: number): status is HttpNoBodyStatusCode {
+    return (HttpNoBodyCodes as readonly number[]).includes(status);
+}
+
+// Helper function to validate response headers against the declared schema and turn them into wire strings.
+// Without a declared schema the headers are passed through as-is.
+export function serializeResponseHeaders(
+    responseSchema: ZodTypeAny | undefined,
+    headers: Record<string, unknown> | undefined
+): { success: true; headers: Record<string, string> } | { success: false; error: z.ZodError } {
+    const headersSchema = getResponseHeadersSchema(responseSchema);
+    let values: Record<string, unknown> = headers || {};
+
+    if (headersSchema) {
+        const validationResult = headersSchema.safeParse(values);
+        if (!validationResult.success) {
+            return { success: false, error: validationResult.error };
+        }
+        values = validationResult.data as Record<string, unknown>;
+    }
+
+    const serialized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (value === undefined || value === null) continue;
+        serialized[name] = value instanceof Date ? value.toUTCString() : String(value);
+    }
+    return { success: true, headers: serialized };
+}
+
 // Helper function to make Zod schemas strict (fail on unknown properties)
 function makeSchemaStrict(schema: ZodTypeAny): ZodTypeAny {
     // Check if the schema has a .strict() method (ZodObject does)
@@ -96,7 +273,7 @@ function makeSchemaStrict(schema: ZodTypeAny): ZodTypeAny {
 
 // Helper function to create response schemas with unified structure and default 422 error
 // Schemas input is now constrained to use AllowedInputStatusCode as keys.
-export function CreateResponses<TInputMap extends Partial<Record<AllowedInputStatusCode, InputSchemaOrMarker>>>(
+export function CreateResponses<TInputMap extends CreateResponsesInput>(
     schemas: TInputMap
 ): CreateResponsesReturnType<TInputMap> {
     const builtResult: any = {}; // Using any for intermediate dynamic construction.
@@ -106,8 +283,27 @@ export function CreateResponses<TInputMap extends Partial<Record<AllowedInputSta
             const numericKey = parseInt(stringStatusKey) as Extract<keyof TInputMap, AllowedInputStatusCode>;
             const schemaOrMarker = schemas[numericKey];
 
+            // Custom codes are allowed, but they still have to be a final HTTP status
+            if (!Number.isInteger(numericKey) || numericKey < 200 || numericKey > 599) {
+                throw new Error(`Invalid response status code "${stringStatusKey}": expected an integer between 200 and 599.`);
+            }
+
             if (schemaOrMarker) { // Check if schemaOrMarker is defined (due to Partial)
-                if (schemaOrMarker instanceof TsTypeMarker) {
+                if (schemaOrMarker instanceof ResponseHeadersMarker) {
+                    // Build the body schema as usual, then attach the headers schema to it
+                    const wrapped = CreateResponses({ [numericKey]: schemaOrMarker.schema } as CreateResponsesInput) as any;
+                    (builtResult as any)[numericKey] = Object.assign(wrapped[numericKey], { responseHeaders: schemaOrMarker.headers });
+                    if (schemaOrMarker instanceof RedirectMarker) {
+                        (builtResult as any)[numericKey].redirect = true;
+                    }
+                } else if (schemaOrMarker instanceof BodyKindMarker) {
+                    // The body is sent raw; the { data } wrapper only carries the ResponseFile type
+                    (builtResult as any)[numericKey] = Object.assign(z.object({ data: z.any() }).strict(), { bodyKind: schemaOrMarker.kind });
+                } else if (schemaOrMarker instanceof JsonLinesMarker) {
+                    // Collected, the lines are an array of items; the item schema validates each line on its own
+                    const strictItem = makeSchemaStrict(schemaOrMarker.item);
+                    (builtResult as any)[numericKey] = Object.assign(createSuccessUnifiedResponseSchema(z.array(strictItem)), { jsonLines: strictItem });
+                } else if (schemaOrMarker instanceof TsTypeMarker) {
                     // For TsTypeMarker, create a ZodObject with data typed as z.any() at runtime.
                     // The actual type T is carried by CreateResponsesReturnType for compile-time inference.
                     (builtResult as any)[numericKey] = z.object({
@@ -177,6 +373,8 @@ type RouteWithoutBody = {
     path: string;
     params?: ZodTypeAny;
     query?: ZodTypeAny;
+    headers?: ZodTypeAny;   // Request headers, keys are matched case-insensitively
+    cookies?: ZodTypeAny;   // Request cookies parsed from the Cookie header
     body?: never;           // Explicitly prevent body
     fileUpload?: never;     // Explicitly prevent file uploads
     responses: Record<number, ZodTypeAny>;
@@ -188,6 +386,8 @@ type RouteWithBody = {
     path: string;
     params?: ZodTypeAny;
     query?: ZodTypeAny;
+    headers?: ZodTypeAny;   // Request headers, keys are matched case-insensitively
+    cookies?: ZodTypeAny;   // Request cookies parsed from the Cookie header
     body?: ZodTypeAny;      // Allow body
     fileUpload?: FileUploadConfig; // Allow file uploads
     responses: Record<number, ZodTypeAny>;
@@ -196,8 +396,14 @@ type RouteWithBody = {
 // Union type for all route schemas
 export type RouteSchema = (RouteWithoutBody | RouteWithBody) & {
     description?: string;
+    idempotent?: boolean;   // Lets the client's retry policy retry POST/PATCH calls to this route
+    sse?: SseEventsSchema;  // Server-Sent Events contract of a streaming route
 };
 
+// Event names of a Server-Sent Events stream mapped to the schema of their data.
+// Events sent without a name arrive as 'message', as in the browser's EventSource.
+export type SseEventsSchema = Record<string, ZodTypeAny>;
+
 // Define the structure for the entire API definition object
 // Now includes an optional prefix and endpoints record
 export type ApiDefinitionSchema<TEndpoints extends Record<string, Record<string, RouteSchema>> = Record<string, Record<string, RouteSchema>>> = {
@@ -206,14 +412,196 @@ export type ApiDefinitionSchema<TEndpoints extends Record<string, Record<string,
     endpoints: TEndpoints;
 };
 
+type PathParamNameChar =
+    | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm' | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+    | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J' | 'K' | 'L' | 'M' | 'N' | 'O' | 'P' | 'Q' | 'R' | 'S' | 'T' | 'U' | 'V' | 'W' | 'X' | 'Y' | 'Z'
+    | '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '_' | '$';
+
+// Reads the parameter name at the start of what follows a ':' or '*', the way parsePathTemplate does:
+// 'id{[0-9]+}' or 'id?' -> 'id', 'name{.:ext}' -> 'name', 'id}' -> 'id'
+type PathParamName<TRest extends string, TName extends string = ''> =
+    TRest extends `${infer Char}${infer Rest}`
+    ? Char extends PathParamNameChar ? PathParamName<Rest, `${TName}${Char}`> : TName
+    : TName;
+
+type ExtractNamedParams<TPath extends string> =
+    TPath extends `${string}:${infer Rest}` ? PathParamName<Rest> | ExtractNamedParams<Rest> : never;
+
+type ExtractWildcardParams<TPath extends string> =
+    TPath extends `${string}/*${infer Rest}` ? PathParamName<Rest> | ExtractWildcardParams<Rest> : never;
+
+// Extracts the placeholder names from a route path, in Express (':id', '*path', '{/:id}') or Hono (':id?', ':id{[0-9]+}') syntax
+export type ExtractPathParams<TPath extends string> =
+    Exclude<ExtractNamedParams<TPath> | ExtractWildcardParams<TPath>, ''>;
+
+// Keys declared by a route's params schema (never when there is no params schema)
+type RouteParamsKeys<TRoute> = TRoute extends { params: infer P extends ZodTypeAny }
+    ? keyof z.input<P> & string
+    : never;
+
+// Resolves to unknown when a route's path placeholders and params keys agree, otherwise to an object type whose
+// `params` carries a readable error message. Non-literal paths and non-object params schemas are left to the runtime check.
+type CheckRoutePathParams<TRoute> =
+    TRoute extends { path: infer TPath extends string }
+    ? string extends TPath ? unknown
+    : string extends RouteParamsKeys<TRoute> ? unknown
+    : [Exclude<ExtractPathParams<TPath>, RouteParamsKeys<TRoute>>] extends [infer Missing extends string]
+    ? [Missing] extends [never]
+    ? [Exclude<RouteParamsKeys<TRoute>, ExtractPathParams<TPath>>] extends [infer Extra extends string]
+    ? [Extra] extends [never]
+    ? unknown
+    : { params: `Error: params key "${Extra}" has no matching ":${Extra}" placeholder in path "${TPath}"` }
+    : unknown
+    : { params: `Error: path placeholder ":${Missing}" in "${TPath}" has no matching key in params` }
+    : unknown
+    : unknown;
+
+type CheckDefinitionPathParams<T extends ApiDefinitionSchema> = {
+    endpoints: {
+        [TDomain in keyof T['endpoints']]: {
+            [TRouteKey in keyof T['endpoints'][TDomain]]: CheckRoutePathParams<T['endpoints'][TDomain][TRouteKey]>;
+        };
+    };
+};
+
+// A parsed route path. Covers Express 5 syntax (':id', '*path', optional '{...}' groups) and Hono's
+// ':id?' and ':id{regex}' placeholders, so every adapter and the client read paths the same way.
+export type PathToken =
+    | { type: 'text'; value: string }
+    | { type: 'param'; name: string; pattern?: string; optional: boolean }
+    | { type: 'wildcard'; name?: string }   // Matches one or more segments; Hono's '*' has no name
+    | { type: 'group'; tokens: PathToken[] };   // Optional part of the path
+
+const PATH_PARAM_NAME = /^[A-Za-z_$][\w$]*/;
+
+// Helper function to find the '}' that closes the brace opened at `start`
+function findClosingBrace(path: string, start: number): number {
+    let depth = 0;
+    for (let index = start; index < path.length; index++) {
+        if (path[index] === '\\') index++;
+        else if (path[index] === '{') depth++;
+        else if (path[index] === '}' && --depth === 0) return index;
+    }
+    return -1;
+}
+
+// Helper function to parse a route path into text, parameters, wildcards and optional groups.
+// Braces right after a parameter name are a Hono regex constraint unless they hold a '/' or ':',
+// in which case they are an Express optional group (':name{.:ext}').
+export function parsePathTemplate(path: string): PathToken[] {
+    let index = 0;
+
+    const parseTokens = (inGroup: boolean): PathToken[] => {
+        const tokens: PathToken[] = [];
+        let text = '';
+        const flushText = () => {
+            if (text) tokens.push({ type: 'text', value: text });
+            text = '';
+        };
+
+        while (index < path.length) {
+            const char = path[index];
+
+            if (char === '}' && inGroup) {
+                index++;
+                break;
+            }
+            if (char === '\\') {
+                text += path[index + 1] ?? '';
+                index += 2;
+                continue;
+            }
+            if (char === '{') {
+                flushText();
+                index++;
+                tokens.push({ type: 'group', tokens: parseTokens(true) });
+                continue;
+            }
+            if (char !== ':' && char !== '*') {
+                text += char;
+                index++;
+                continue;
+            }
+
+            const name = PATH_PARAM_NAME.exec(path.slice(index + 1))?.[0];
+            if (char === '*') {
+                flushText();
+                index += 1 + (name?.length ?? 0);
+                tokens.push({ type: 'wildcard', name });
+                continue;
+            }
+            if (!name) {
+                text += char;
+                index++;
+                continue;
+            }
+
+            flushText();
+            index += 1 + name.length;
+            const param: PathToken = { type: 'param', name, optional: false };
+            if (path[index] === '{') {
+                const end = findClosingBrace(path, index);
+                const pattern = end === -1 ? '' : path.slice(index + 1, end);
+                if (end !== -1 && !/[/:]/.test(pattern)) {
+                    param.pattern = pattern;
+                    index = end + 1;
+                }
+            }
+            if (path[index] === '?') {
+                param.optional = true;
+                index++;
+            }
+            tokens.push(param);
+        }
+
+        flushText();
+        return tokens;
+    };
+
+    return parseTokens(false);
+}
+
+// Helper function to extract the placeholder names (parameters and named wildcards) from a path at runtime
+export function extractPathParams(path: string): string[] {
+    const names: string[] = [];
+    const collect = (tokens: PathToken[]) => tokens.forEach(token => {
+        if (token.type === 'group') collect(token.tokens);
+        else if (token.type !== 'text' && token.name) names.push(token.name);
+    });
+    collect(parsePathTemplate(path));
+    return names;
+}
+
+// Runtime counterpart of CheckRoutePathParams for paths and schemas the type system cannot see through
+function assertPathParamsMatch(domainKey: string, routeKey: string, route: RouteSchema) {
+    const placeholders = extractPathParams(route.path);
+    const paramsSchema = route.params;
+
+    if (paramsSchema && !(paramsSchema instanceof z.ZodObject)) {
+        return; // Only object schemas have keys to compare
+    }
+
+    const paramKeys = paramsSchema ? Object.keys(paramsSchema.shape) : [];
+    const missing = placeholders.filter(placeholder => !paramKeys.includes(placeholder));
+    const extra = paramKeys.filter(key => !placeholders.includes(key));
+
+    if (missing.length > 0) {
+        throw new Error(`Route ${domainKey}.${routeKey}: path placeholder(s) ${missing.map(m => `":${m}"`).join(', ')} in "${route.path}" have no matching key in params.`);
+    }
+    if (extra.length > 0) {
+        throw new Error(`Route ${domainKey}.${routeKey}: params key(s) ${extra.map(e => `"${e}"`).join(', ')} have no matching placeholder in path "${route.path}".`);
+    }
+}
+
 // Helper function to ensure the definition conforms to ApiDefinitionSchema
-// while preserving the literal types of the passed object.
-// Also applies strict validation to all Zod schemas in the definition.
-export function CreateApiDefinition<T extends ApiDefinitionSchema>(
-    definition: T
+// while preserving the literal types of the passed object (including paths, for placeholder checks).
+// Also applies strict validation to all Zod schemas in the definition and verifies that
+// every path placeholder has a matching params key and vice versa.
+export function CreateApiDefinition<const T extends ApiDefinitionSchema>(
+    definition: T & CheckDefinitionPathParams<T>
 ): T {
     // Create a new definition object with strict schemas
-    const strictDefinition = { ...definition };
+    const strictDefinition: T = { ...definition };
     strictDefinition.endpoints = { ...definition.endpoints };
 
     // Apply strict validation to all route schemas
@@ -223,6 +611,7 @@ export function CreateApiDefinition<T extends ApiDefinitionSchema>(
 
         for (const routeKey in domain) {
             const route = domain[routeKey];
+            assertPathParamsMatch(domainKey, routeKey, route);
             const strictRoute = { ...route };
 
             // Apply strict validation to params, query, and body schemas
@@ -235,6 +624,8 @@ export function CreateApiDefinition<T extends ApiDefinitionSchema>(
             if (route.body) {
                 strictRoute.body = makeSchemaStrict(route.body);
             }
+            // Headers and cookies are intentionally left non-strict: clients, proxies and
+            // browsers always send more of them than a route cares about.
 
             strictDefinition.endpoints[domainKey][routeKey] = strictRoute;
         }
@@ -311,6 +702,85 @@ export type ApiQuery<
     ? z.infer<Q>
     : Record<string, any>;
 
+export type ApiHeaders<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { headers: infer H extends z.ZodTypeAny }
+    ? z.infer<H>
+    : Record<string, string | string[] | undefined>;
+
+export type ApiCookies<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { cookies: infer C extends z.ZodTypeAny }
+    ? z.infer<C>
+    : Record<string, any>;
+
+// Data type of each event of a route's SSE contract (any event name with any data when the route declares none)
+export type ApiSseEvents<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { sse: infer S extends SseEventsSchema }
+    ? { [E in keyof S & string]: z.infer<S[E]> }
+    : Record<string, any>;
+
+// Item type of a route's JsonLinesResponse status (never when the route declares none)
+export type ApiStreamItem<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName]['responses'] extends infer R
+    ? { [S in keyof R]: R[S] extends { jsonLines: infer T extends ZodTypeAny } ? z.infer<T> : never }[keyof R]
+    : never;
+
+// Type for the trailing headers argument of res.respond and createRouteError. Statuses declared with
+// ResponseWithHeaders require their headers (unless every header is optional); other statuses accept ad-hoc headers.
+export type ResponseHeadersArgs<TResponseSchema> =
+    TResponseSchema extends { responseHeaders: infer H extends ZodTypeAny }
+    ? Record<string, never> extends z.input<H>
+    ? [headers?: z.input<H>]
+    : [headers: z.input<H>]
+    : [headers?: Record<string, string>];
+
+// --- Throwable HTTP Errors ---
+
+// Error that a handler, or any code it calls, can throw to send a declared response instead of a generic 500.
+// The adapters catch it and send it exactly as if res.respond(status, data, headers) had been called,
+// so the status and payload are validated against the route's responses map.
+export class HttpError<TStatus extends number = number, TData = unknown> extends Error {
+    readonly status: TStatus;
+    readonly data: TData;
+    readonly headers?: Record<string, unknown>;
+
+    constructor(status: TStatus, data: TData, headers?: Record<string, unknown>) {
+        super(`HTTP ${status}`);
+        this.name = 'HttpError';
+        this.status = status;
+        this.data = data;
+        this.headers = headers;
+    }
+}
+
+// Helper function to create an HttpError whose status, payload and headers are type-checked against a route
+export function createRouteError<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteKey extends ApiRouteKey<TDef, TDomain>,
+    TStatus extends keyof TDef['endpoints'][TDomain][TRouteKey]['responses'] & number
+>(
+    apiDefinition: TDef,
+    domain: TDomain,
+    routeKey: TRouteKey,
+    status: TStatus,
+    data: InferDataFromUnifiedResponse<TDef['endpoints'][TDomain][TRouteKey]['responses'][TStatus]>,
+    ...headers: ResponseHeadersArgs<TDef['endpoints'][TDomain][TRouteKey]['responses'][TStatus]>
+): HttpError<TStatus, InferDataFromUnifiedResponse<TDef['endpoints'][TDomain][TRouteKey]['responses'][TStatus]>> {
+    return new HttpError(status, data, (headers as unknown[])[0] as Record<string, unknown> | undefined);
+}
+
 // --- Client-specific Input Types ---
 
 // For client-side request body (data before Zod parsing/transformation on backend)
@@ -332,6 +802,15 @@ export type ApiClientParams<
     ? z.input<P> // Use z.input for the type expected by the client to send
     : undefined;
 
+// Placeholder names of a route's path, e.g. 'id' for '/users/:id' (never when the path has none)
+export type ApiRoutePathParams<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { path: infer P extends string }
+    ? ExtractPathParams<P>
+    : never;
+
 // For client-side query parameters (data before Zod parsing/transformation on backend)
 export type ApiClientQuery<
     TDef extends ApiDefinitionSchema,
@@ -341,6 +820,41 @@ export type ApiClientQuery<
     ? z.input<Q> // Use z.input for the type expected by the client to send
     : undefined;
 
+// For client-side request headers (data before Zod parsing/transformation on backend)
+export type ApiClientHeaders<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { headers: infer H extends ZodTypeAny }
+    ? z.input<H>
+    : undefined;
+
+// For client-side request cookies (data before Zod parsing/transformation on backend)
+export type ApiClientCookies<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { cookies: infer C extends ZodTypeAny }
+    ? z.input<C>
+    : undefined;
+
+// For client-side file uploads, keyed by the field names of the route's fileUpload config.
+// File (from an <input type="file">) is a Blob, so either can be passed.
+export type ApiClientFiles<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends ApiRouteKey<TDef, TDomain>
+> = TDef['endpoints'][TDomain][TRouteName] extends { fileUpload: infer F extends FileUploadConfig }
+    ? FileUploadInput<F>
+    : undefined;
+
+type FileUploadInput<F extends FileUploadConfig> =
+    F extends { single: { fieldName: infer N extends string } } ? { [K in N]?: Blob }
+    : F extends { array: { fieldName: infer N extends string } } ? { [K in N]?: Blob[] }
+    : F extends { fields: ReadonlyArray<{ fieldName: infer N extends string }> } ? { [K in N]?: Blob[] }
+    : F extends { any: object } ? Record<string, Blob | Blob[]>
+    : undefined;
+
 // --- File Upload Validation Schemas ---
 
 // Schema for validating uploaded files
@@ -0,0 +1,43 @@
+// Fastify-only exports - for Fastify servers
+// Excludes Express and Hono adapters; uploads use @fastify/multipart instead of multer
+export { CreateApiDefinition, CreateResponses, ResponseWithHeaders, Redirect, FileResponse, TextResponse, JsonLinesResponse, HttpError, createRouteError } from './definition';
+export { z as ZodSchema } from 'zod';
+export { EndpointMiddleware, EndpointMiddlewareCtx, EndpointInfo } from './object-handlers'
+
+
+// Fastify adapter
+export { RegisterFastifyHandlers } from './fastify';
+// Typed pub/sub channels over SSE
+export { createChannels, InMemoryChannelBroker } from './channels';
+
+// Re-export types that are needed for Fastify development
+export type {
+    ApiDefinitionSchema,
+    RouteSchema,
+    UnifiedError,
+    FileUploadConfig,
+    HttpSuccessStatusCode,
+    HttpRedirectStatusCode,
+    ResponseBodyKind,
+    ResponseFile,
+    ResponseFileInput,
+    SseEventsSchema,
+    ApiSseEvents,
+    ApiStreamItem,
+    HttpClientErrorStatusCode,
+    HttpServerErrorStatusCode,
+    AllowedInputStatusCode,
+    AllowedResponseStatusCode
+} from './definition';
+
+// Fastify-specific types
+export type { FastifyFile } from './fastify';
+
+export type {
+    Channels,
+    ChannelBroker,
+    ChannelMessage,
+    ChannelDefinitions,
+    ChannelEvents,
+    ChannelsOptions
+} from './channels';
@@ -0,0 +1,213 @@
+import { Readable } from 'stream';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import multipart from '@fastify/multipart';
+import { ApiDefinitionSchema, FileUploadConfig, ErrorHandler, UnifiedError } from './definition';
+import { SpecificRouteHandler } from './router';
+import { ObjectHandlers, AnyMiddleware, EndpointMiddleware } from './object-handlers';
+import { NormalizedRequest, NormalizedResponse, ServerAdapter, registerAdapterRouteHandlers, transformObjectHandlersToArray, toEndpointMiddlewares } from './core';
+
+// Fastify uploads are buffered in memory and exposed with the same fields as Multer files
+export type FastifyFile = {
+    fieldname: string;
+    originalname: string;
+    encoding: string;
+    mimetype: string;
+    size: number;
+    buffer: Buffer;
+};
+
+// Same default as the Express (Multer) adapter
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+type UploadRule = { maxSize?: number; maxCount?: number; allowedMimeTypes?: string[] };
+
+// Any Fastify instance, whatever its server, logger or type provider
+type AnyFastifyInstance = FastifyInstance<any, any, any, any, any>;
+
+// Request properties set by @fastify/cookie and by framework-level middleware, when present
+type FastifyRequestExtras = { cookies?: Record<string, string>; ctx?: Record<string, unknown> };
+
+// Apps @fastify/multipart was registered on by the adapter
+const multipartApps = new WeakSet<object>();
+
+// Thrown while reading a multipart body; answered with the same 422 format as Multer errors
+class FileUploadError extends Error {
+    constructor(readonly field: string, message: string) {
+        super(message);
+        this.name = 'FileUploadError';
+    }
+}
+
+// Helper function to find the upload limits that apply to a multipart file field
+function getUploadRule(config: FileUploadConfig, fieldName: string): UploadRule | undefined {
+    if (config.single) return config.single.fieldName === fieldName ? { ...config.single, maxCount: 1 } : undefined;
+    if (config.array) return config.array.fieldName === fieldName ? config.array : undefined;
+    if (config.fields) return config.fields.find(f => f.fieldName === fieldName);
+    if (config.any) return config.any;
+    return undefined;
+}
+
+// Helper function to read a multipart request into body fields and files, enforcing the FileUploadConfig
+async function readMultipartRequest(request: FastifyRequest, config: FileUploadConfig) {
+    const rules = [config.single, config.array, ...(config.fields ?? []), config.any].filter(Boolean) as UploadRule[];
+    const fileSizeLimit = Math.max(...rules.map(rule => rule.maxSize || DEFAULT_MAX_FILE_SIZE));
+
+    const body: Record<string, unknown> = {};
+    const uploadedFiles: FastifyFile[] = [];
+
+    for await (const part of request.parts({ limits: { fileSize: fileSizeLimit } })) {
+        if (part.type === 'field') {
+            body[part.fieldname] = part.value;
+            continue;
+        }
+
+        const rule = getUploadRule(config, part.fieldname);
+        if (!rule) {
+            throw new FileUploadError(part.fieldname, `Unexpected field: ${part.fieldname}`);
+        }
+        if (rule.allowedMimeTypes && !rule.allowedMimeTypes.includes(part.mimetype)) {
+            throw new FileUploadError('file', `File type ${part.mimetype} not allowed`);
+        }
+        if (rule.maxCount && uploadedFiles.filter(file => file.fieldname === part.fieldname).length >= rule.maxCount) {
+            throw new FileUploadError('file', 'Too many files uploaded');
+        }
+
+        let buffer: Buffer;
+        try {
+            buffer = await part.toBuffer();
+        } catch (error) {
+            if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+                throw new FileUploadError('file', 'File size exceeds the allowed limit');
+            }
+            throw error;
+        }
+        if (buffer.length > (rule.maxSize || DEFAULT_MAX_FILE_SIZE)) {
+            throw new FileUploadError('file', 'File size exceeds the allowed limit');
+        }
+
+        uploadedFiles.push({
+            fieldname: part.fieldname,
+            originalname: part.filename,
+            encoding: part.encoding,
+            mimetype: part.mimetype,
+            size: buffer.length,
+            buffer
+        });
+    }
+
+    if (config.single) {
+        return { body, file: uploadedFiles[0] };
+    }
+    if (config.fields) {
+        const filesMap: { [fieldname: string]: FastifyFile[] } = {};
+        for (const file of uploadedFiles) {
+            (filesMap[file.fieldname] ??= []).push(file);
+        }
+        return { body, files: filesMap };
+    }
+    return { body, files: uploadedFiles };
+}
+
+// Helper function to describe a Fastify request to the core pipeline
+function toNormalizedRequest(request: FastifyRequest): NormalizedRequest {
+    return {
+        method: request.method,
+        path: request.url.split('?')[0],
+        url: request.url,
+        params: request.params as Record<string, string>,
+        query: request.query as Record<string, unknown>,
+        headers: request.headers,
+        // Cookies parsed by @fastify/cookie when registered, the pipeline falls back to the raw Cookie header
+        cookies: (request as FastifyRequest & FastifyRequestExtras).cookies,
+        body: request.body,
+        ip: request.ip,
+        ctx: (request as FastifyRequest & FastifyRequestExtras).ctx,
+        onClose: (callback: () => void) => request.raw.on('close', callback)
+    };
+}
+
+// Helper function to write a pipeline response to Fastify
+function sendFastifyResponse(reply: FastifyReply, response: NormalizedResponse) {
+    if (reply.sent) {
+        return reply; // The handler wrote to the Fastify reply directly
+    }
+
+    reply.code(response.status).headers(response.headers);
+
+    switch (response.type) {
+        case 'json': return reply.send(response.body);
+        case 'empty': return reply.send();
+        case 'raw': return reply.send(response.body);
+        // SSE chunks are streamed as the handler produces them
+        case 'stream': return reply.send(Readable.from(response.stream));
+    }
+}
+
+// Server adapter that serves routes from a Fastify instance
+export const fastifyAdapter: ServerAdapter<AnyFastifyInstance> = {
+    registerRoute(app, route) {
+        const fileUpload = route.definition.fileUpload;
+
+        // Multipart parsing comes from @fastify/multipart, registered once unless the app already did
+        if (fileUpload && !app.hasContentTypeParser('multipart/form-data') && !multipartApps.has(app)) {
+            multipartApps.add(app);
+            app.register(multipart);
+        }
+
+        app.route({
+            method: route.method,
+            url: route.path,
+            handler: async (request, reply) => {
+                const normalizedRequest = toNormalizedRequest(request);
+
+                if (fileUpload && request.isMultipart()) {
+                    try {
+                        Object.assign(normalizedRequest, await readMultipartRequest(request, fileUpload));
+                    } catch (error) {
+                        if (!(error instanceof FileUploadError)) {
+                            console.error(`File upload error in ${route.domain}.${route.routeKey}:`, error);
+                        }
+                        const mappedErrors: UnifiedError = [{
+                            field: error instanceof FileUploadError ? error.field : 'file',
+                            message: error instanceof FileUploadError ? error.message : 'File upload processing failed',
+                            type: 'body'
+                        }];
+                        return reply.code(422).send({ data: null, error: mappedErrors });
+                    }
+                }
+
+                // Middlewares and handlers receive objects inheriting from the Fastify request/reply
+                const response = await route.handle(normalizedRequest, { request, response: reply });
+                return sendFastifyResponse(reply, response);
+            }
+        });
+    }
+};
+
+// Register route handlers with Fastify, generic over TDef
+export function registerFastifyRouteHandlers<TDef extends ApiDefinitionSchema>(
+    app: AnyFastifyInstance,
+    apiDefinition: TDef,
+    routeHandlers: Array<SpecificRouteHandler<TDef>>,
+    middlewares?: EndpointMiddleware<TDef>[],
+    errorHandler?: ErrorHandler
+) {
+    registerAdapterRouteHandlers(fastifyAdapter, app, apiDefinition, routeHandlers, middlewares, errorHandler);
+}
+
+// Main utility function that registers object-based handlers with Fastify
+export function RegisterFastifyHandlers<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    app: AnyFastifyInstance,
+    apiDefinition: TDef,
+    objectHandlers: ObjectHandlers<TDef, Ctx>,
+    middlewares?: AnyMiddleware<TDef>[],
+    errorHandler?: ErrorHandler
+): void {
+    const handlerArray = transformObjectHandlersToArray(objectHandlers);
+    const endpointMiddlewares = toEndpointMiddlewares(middlewares);
+
+    registerFastifyRouteHandlers(app, apiDefinition, handlerArray, endpointMiddlewares, errorHandler);
+}
@@ -0,0 +1,291 @@
+import { ApiDefinitionSchema, FileUploadConfig, ErrorHandler, UnifiedError, PathToken, parsePathTemplate } from './definition';
+import { ObjectHandlers, AnyMiddleware } from './object-handlers';
+import { AdapterRoute, NormalizedResponse, ServerAdapter, registerAdapterRouteHandlers, transformObjectHandlersToArray, toEndpointMiddlewares, toReadableStream } from './core';
+
+export interface FetchHandlerOptions<TDef extends ApiDefinitionSchema = ApiDefinitionSchema> {
+    middlewares?: AnyMiddleware<TDef>[];
+    errorHandler?: ErrorHandler;
+}
+
+// Uploaded files use the same shape as on Hono, since both read them from the Fetch API FormData
+export type FetchFile = {
+    fieldname: string;
+    originalname: string;
+    encoding: string;
+    mimetype: string;
+    size: number;
+    buffer: Uint8Array;
+    file: File;
+};
+
+// A registered route with its path compiled for matching
+type FetchRoute = AdapterRoute & { pattern: RegExp; paramNames: string[]; wildcardNames: string[] };
+
+// Helper function to compile a route path ('/users/:id', '/files/*path', '/users{/:id}') into a matcher
+// with one named capture group per placeholder
+function compileRoutePath(path: string) {
+    const paramNames: string[] = [];
+    const wildcardNames: string[] = [];
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    const toSource = (tokens: PathToken[]): string => {
+        let source = '';
+        for (const token of tokens) {
+            if (token.type === 'text') {
+                source += escape(token.value);
+            } else if (token.type === 'group') {
+                source += `(?:${toSource(token.tokens)})?`;
+            } else if (token.type === 'wildcard') {
+                if (token.name) {
+                    paramNames.push(token.name);
+                    wildcardNames.push(token.name);
+                }
+                source += token.name ? `(?<${token.name}>.+)` : '.*';
+            } else {
+                paramNames.push(token.name);
+                const capture = `(?<${token.name}>${token.pattern ?? '[^/]+?'})`;
+                // An optional parameter (':id?') takes its leading slash with it
+                if (token.optional && source.endsWith('/')) {
+                    source = `${source.slice(0, -1)}(?:/${capture})?`;
+                } else {
+                    source += token.optional ? `${capture}?` : capture;
+                }
+            }
+        }
+        return source;
+    };
+
+    return { pattern: new RegExp(`^${toSource(parsePathTemplate(path))}/?$`), paramNames, wildcardNames };
+}
+
+// Helper function to read the query string; repeated keys become arrays, as with Express's query parser
+function parseQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+    const query: Record<string, string | string[]> = {};
+    searchParams.forEach((value, key) => {
+        const existing = query[key];
+        query[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    });
+    return query;
+}
+
+// Helper function to find the route for a request; static segments win over path parameters
+function matchRoute(routes: FetchRoute[], method: string, path: string) {
+    let allowed = false;
+    let malformed = false;
+    let best: { route: FetchRoute; params: Record<string, string | string[]> } | undefined;
+
+    for (const route of routes) {
+        const match = route.pattern.exec(path);
+        if (!match) continue;
+        if (route.method !== method) {
+            allowed = true;
+            continue;
+        }
+        if (best && best.route.paramNames.length <= route.paramNames.length) continue;
+
+        const params: Record<string, string | string[]> = {};
+        try {
+            route.paramNames.forEach(name => {
+                const value = match.groups?.[name];
+                if (value === undefined) return; // An optional placeholder that is not in the path
+                // Named wildcards are split into their segments, as Express 5 does
+                params[name] = route.wildcardNames.includes(name)
+                    ? value.split('/').map(decodeURIComponent)
+                    : decodeURIComponent(value);
+            });
+        } catch {
+            // A malformed escape such as '%E0%A4%A' cannot be a parameter value
+            malformed = true;
+            continue;
+        }
+        best = { route, params };
+    }
+
+    return { match: best, methodNotAllowed: !best && !malformed && allowed, malformedPath: !best && malformed };
+}
+
+// Helper function to build a 422 response in the same format as request validation errors
+function uploadError(field: string, message: string): Response {
+    const error: UnifiedError = [{ field, message, type: 'body' }];
+    return Response.json({ data: null, error }, { status: 422 });
+}
+
+// Helper function to read form data into body fields and files, enforcing the FileUploadConfig
+// with the same messages as the Hono adapter. Returns a Response when the upload is rejected.
+async function readFormData(formData: FormData, config?: FileUploadConfig) {
+    const body: Record<string, unknown> = {};
+    const uploadedFiles: FetchFile[] = [];
+    const entries: Array<[string, string | File]> = [];
+    formData.forEach((value, key) => entries.push([key, value]));
+
+    for (const [key, value] of entries) {
+        if (typeof value === 'string') {
+            body[key] = value;
+            continue;
+        }
+        if (!config) continue;
+
+        const rule = config.single?.fieldName === key ? config.single
+            : config.array?.fieldName === key ? config.array
+                : config.fields?.find(f => f.fieldName === key) ?? config.any;
+        if (!rule) {
+            return uploadError(key, `Unexpected field: ${key}`);
+        }
+
+        if (rule.maxSize && value.size > rule.maxSize) {
+            return uploadError(config.any ? key : 'file', `File size exceeds ${rule.maxSize} bytes`);
+        }
+        if (rule.allowedMimeTypes && !rule.allowedMimeTypes.includes(value.type)) {
+            return uploadError(config.any ? key : 'file', `File type ${value.type} not allowed`);
+        }
+
+        uploadedFiles.push({
+            fieldname: key,
+            originalname: value.name,
+            encoding: '7bit',
+            mimetype: value.type,
+            size: value.size,
+            buffer: new Uint8Array(await value.arrayBuffer()),
+            file: value
+        });
+    }
+
+    if (config?.single) {
+        return { body, file: uploadedFiles[0] };
+    }
+    if (config?.array) {
+        if (config.array.maxCount && uploadedFiles.length > config.array.maxCount) {
+            return uploadError('file', `Maximum ${config.array.maxCount} files allowed`);
+        }
+        return { body, files: uploadedFiles };
+    }
+    if (config?.fields) {
+        const filesMap: { [fieldname: string]: FetchFile[] } = {};
+        for (const fieldConfig of config.fields) {
+            const files = uploadedFiles.filter(file => file.fieldname === fieldConfig.fieldName);
+            if (fieldConfig.maxCount && files.length > fieldConfig.maxCount) {
+                return uploadError(fieldConfig.fieldName, `Maximum ${fieldConfig.maxCount} files allowed`);
+            }
+            if (files.length > 0) {
+                filesMap[fieldConfig.fieldName] = files;
+            }
+        }
+        return { body, files: filesMap };
+    }
+    if (config?.any) {
+        return { body, files: uploadedFiles };
+    }
+    return { body };
+}
+
+// Helper function to read the request body as JSON or form data, depending on its content type
+async function readFetchBody(request: Request, config?: FileUploadConfig) {
+    const contentType = request.headers.get('content-type') ?? '';
+    try {
+        if (contentType.includes('application/json')) {
+            return { body: await request.json() };
+        }
+        if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+            return await readFormData(await request.formData(), config);
+        }
+        return { body: {} };
+    } catch (error) {
+        if (config && contentType.includes('multipart/form-data')) {
+            console.error('File upload error:', error);
+            return uploadError('file', 'File upload processing failed');
+        }
+        return { body: undefined }; // A malformed body then fails body validation like a missing one
+    }
+}
+
+// Helper function to turn a pipeline response into a Fetch API Response
+function toFetchResponse(response: NormalizedResponse): Response {
+    switch (response.type) {
+        case 'json': return Response.json(response.body, { status: response.status, headers: response.headers });
+        case 'empty': return new Response(null, { status: response.status, headers: response.headers });
+        case 'raw': return new Response(response.body as ConstructorParameters<typeof Response>[0], { status: response.status, headers: response.headers });
+        case 'stream':
+            // SSE chunks are sent as the handler produces them
+            return new Response(toReadableStream(response.stream), { status: response.status, headers: response.headers });
+    }
+}
+
+// Server adapter that collects routes for the Fetch handler
+const fetchAdapter: ServerAdapter<FetchRoute[]> = {
+    registerRoute(routes, route) {
+        routes.push({ ...route, ...compileRoutePath(route.path) });
+    }
+};
+
+// Builds the Fetch request handler; other adapters built on Request/Response (e.g. Lambda) use it directly
+// to pass along what the Fetch API does not carry, such as the client IP
+export function buildFetchRequestHandler<TDef extends ApiDefinitionSchema>(
+    apiDefinition: TDef,
+    objectHandlers: ObjectHandlers<TDef, any>,
+    options: FetchHandlerOptions<TDef> = {}
+): (request: Request, ip?: string) => Promise<Response> {
+    const routes: FetchRoute[] = [];
+    const handlerArray = transformObjectHandlersToArray(objectHandlers);
+    const endpointMiddlewares = toEndpointMiddlewares(options.middlewares);
+    registerAdapterRouteHandlers(fetchAdapter, routes, apiDefinition, handlerArray, endpointMiddlewares, options.errorHandler);
+
+    return async (request: Request, ip?: string): Promise<Response> => {
+        const url = new URL(request.url);
+        const method = request.method.toUpperCase();
+        // HEAD requests are served by the GET route without a body, as Express does
+        const { match, methodNotAllowed, malformedPath } = matchRoute(routes, method === 'HEAD' ? 'GET' : method, url.pathname);
+
+        if (!match) {
+            if (malformedPath) {
+                return new Response('Bad Request', { status: 400 });
+            }
+            return methodNotAllowed
+                ? new Response('Method Not Allowed', { status: 405 })
+                : new Response('Not Found', { status: 404 });
+        }
+
+        const { route, params } = match;
+        const hasBody = route.method === 'POST' || route.method === 'PUT' || route.method === 'DELETE' || route.method === 'PATCH';
+        const parsedBody = hasBody ? await readFetchBody(request, route.definition.fileUpload) : { body: undefined };
+        if (parsedBody instanceof Response) {
+            return parsedBody;
+        }
+
+        const headers: Record<string, string> = {};
+        request.headers.forEach((value, key) => {
+            headers[key] = value;
+        });
+
+        const response = await route.handle({
+            method,
+            path: url.pathname,
+            url: url.pathname + url.search,
+            params,
+            query: parseQuery(url.searchParams),
+            headers,
+            ...parsedBody,
+            ip,
+            onClose: (callback: () => void) => request.signal?.addEventListener('abort', callback)
+        });
+        const fetchResponse = toFetchResponse(response);
+        if (method === 'HEAD') {
+            void fetchResponse.body?.cancel();
+            return new Response(null, { status: fetchResponse.status, headers: fetchResponse.headers });
+        }
+        return fetchResponse;
+    };
+}
+
+// Creates a standard Fetch API handler, (request: Request) => Promise<Response>, serving the definition.
+// Works anywhere Request/Response are available: Next.js route handlers, Bun.serve, Deno, service workers.
+export function createFetchHandler<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    apiDefinition: TDef,
+    objectHandlers: ObjectHandlers<TDef, Ctx>,
+    options: FetchHandlerOptions<TDef> = {}
+): (request: Request) => Promise<Response> {
+    const handleRequest = buildFetchRequestHandler(apiDefinition, objectHandlers, options);
+    return (request: Request) => handleRequest(request);
+}
@@ -1,9 +1,10 @@
 import { Hono, Context, MiddlewareHandler, Env } from 'hono';
+import type { ContentfulStatusCode, StatusCode } from 'hono/utils/http-status';
 import { z } from 'zod';
-import { ApiDefinitionSchema, RouteSchema, UnifiedError, FileUploadConfig } from './definition';
-import { TypedRequest, TypedResponse } from './router';
-import { SpecificRouteHandler } from './handler';
-import { ObjectHandlers, AnyMiddleware, EndpointMiddleware, SimpleMiddleware } from './object-handlers';
+import { ApiDefinitionSchema, FileUploadConfig, ErrorHandler } from './definition';
+import { TypedRequest, TypedResponse, SpecificRouteHandler } from './router';
+import { ObjectHandlers, AnyMiddleware, EndpointMiddleware } from './object-handlers';
+import { NormalizedResponse, ServerAdapter, registerAdapterRouteHandlers, transformObjectHandlersToArray, toEndpointMiddlewares, toReadableStream } from './core';
 
 // Hono-specific file type for Cloudflare Workers
 export type HonoFile = File;
@@ -25,6 +26,9 @@ export const honoFileSchema = z.object({
 
 export type HonoFileType = z.infer<typeof honoFileSchema>;
 
+// Files the upload middleware attaches to the context
+type HonoUploads = { file?: HonoFileType; files?: HonoFileType[] | { [fieldname: string]: HonoFileType[] } };
+
 // Typed Hono Context that matches our Express-like API
 export type HonoTypedContext<
     TDef extends ApiDefinitionSchema,
@@ -45,111 +49,30 @@ export type HonoTypedContext<
     respond: TypedResponse<TDef, TDomain, TRouteKey>['respond'];
 };
 
-// Helper function to preprocess parameters for type coercion
-function preprocessParams(params: any, paramsSchema?: z.ZodTypeAny): any {
-    if (!paramsSchema || !params) return params;
-
-    // Create a copy to avoid mutating the original
-    const processedParams = { ...params };
-
-    // Get the shape of the schema if it's a ZodObject
-    if (paramsSchema instanceof z.ZodObject) {
-        const shape = paramsSchema.shape;
-
-        for (const [key, value] of Object.entries(processedParams)) {
-            if (typeof value === 'string' && shape[key]) {
-                const fieldSchema = shape[key];
-
-                // Handle ZodOptional and ZodDefault wrappers
-                let innerSchema = fieldSchema;
-                if (fieldSchema instanceof z.ZodOptional) {
-                    innerSchema = fieldSchema._def.innerType;
-                }
-                if (fieldSchema instanceof z.ZodDefault) {
-                    innerSchema = fieldSchema._def.innerType;
-                }
-
-                // Handle nested ZodOptional/ZodDefault combinations
-                while (innerSchema instanceof z.ZodOptional || innerSchema instanceof z.ZodDefault) {
-                    if (innerSchema instanceof z.ZodOptional) {
-                        innerSchema = innerSchema._def.innerType;
-                    } else if (innerSchema instanceof z.ZodDefault) {
-                        innerSchema = innerSchema._def.innerType;
-                    }
-                }
-
-                // Convert based on the inner schema type
-                if (innerSchema instanceof z.ZodNumber) {
-                    const numValue = Number(value);
-                    if (!isNaN(numValue)) {
-                        processedParams[key] = numValue;
-                    }
-                } else if (innerSchema instanceof z.ZodBoolean) {
-                    if (value === 'true') {
-                        processedParams[key] = true;
-                    } else if (value === 'false') {
-                        processedParams[key] = false;
-                    }
-                }
-            }
-        }
-    }
-
-    return processedParams;
-}
-
-// Helper function to preprocess query parameters for type coercion
-function preprocessQueryParams(query: any, querySchema?: z.ZodTypeAny): any {
-    if (!querySchema || !query) return query;
-
-    const processedQuery = { ...query };
-
-    if (querySchema instanceof z.ZodObject) {
-        const shape = querySchema.shape;
-
-        for (const [key, value] of Object.entries(processedQuery)) {
-            if (typeof value === 'string' && shape[key]) {
-                const fieldSchema = shape[key];
-
-                let innerSchema = fieldSchema;
-                if (fieldSchema instanceof z.ZodOptional) {
-                    innerSchema = fieldSchema._def.innerType;
-                }
-                if (fieldSchema instanceof z.ZodDefault) {
-                    innerSchema = fieldSchema._def.innerType;
-                }
-
-                while (innerSchema instanceof z.ZodOptional || innerSchema instanceof z.ZodDefault) {
-                    if (innerSchema instanceof z.ZodOptional) {
-                        innerSchema = innerSchema._def.innerType;
-                    } else if (innerSchema instanceof z.ZodDefault) {
-                        innerSchema = innerSchema._def.innerType;
-                    }
-                }
-
-                if (innerSchema instanceof z.ZodNumber) {
-                    const numValue = Number(value);
-                    if (!isNaN(numValue)) {
-                        processedQuery[key] = numValue;
-                    }
-                } else if (innerSchema instanceof z.ZodBoolean) {
-                    if (value === 'true') {
-                        processedQuery[key] = true;
-                    } else if (value === 'false') {
-                        processedQuery[key] = false;
-                    }
-                }
-            }
-        }
-    }
-
-    return processedQuery;
+// Helper function to tell whether files may be uploaded under a form field name
+function isUploadField(config: FileUploadConfig, fieldName: string): boolean {
+    return Boolean(config.any)
+        || config.single?.fieldName === fieldName
+        || config.array?.fieldName === fieldName
+        || Boolean(config.fields?.some(f => f.fieldName === fieldName));
 }
 
 // Helper function to create file upload middleware for Hono/Workers
 function createHonoFileUploadMiddleware(config: FileUploadConfig): MiddlewareHandler {
     return async (c: any, next: any) => {
         try {
+            // Files under undeclared fields are rejected, like multer's LIMIT_UNEXPECTED_FILE, rather than dropped
+            // (read from the cached FormData, since Hono keeps the first parseBody() result whatever its options)
+            const formEntries: Array<[string, string | File]> = [];
+            (await c.req.formData() as FormData).forEach((value, key) => formEntries.push([key, value]));
+            const unexpectedField = formEntries.find(([key, value]) => value instanceof File && !isUploadField(config, key))?.[0];
+            if (unexpectedField !== undefined) {
+                return c.json({
+                    data: null,
+                    error: [{ field: unexpectedField, message: `Unexpected field: ${unexpectedField}`, type: 'body' }]
+                }, 422);
+            }
+
             if (config.single) {
                 const formData = await c.req.parseBody({ all: false });
                 const file = formData[config.single.fieldName];
@@ -320,440 +243,120 @@ function createHonoFileUploadMiddleware(config: FileUploadConfig): MiddlewareHan
     };
 }
 
-// Register route handlers with Hono, now generic over TDef
-export function registerHonoRouteHandlers<
-    TDef extends ApiDefinitionSchema,
-    TBindings extends Env = Env,
-    TVariables extends Record<string, never> = Record<string, never>,
-    TPath extends string = "/"
->(
-    app: Hono<TBindings, TVariables, TPath>,
-    apiDefinition: TDef,
-    routeHandlers: Array<SpecificRouteHandler<TDef>>,
-    middlewares?: EndpointMiddleware<TDef>[]
-) {
-    routeHandlers.forEach((specificHandlerIterationItem) => {
-        const { domain, routeKey, handler } = specificHandlerIterationItem as any;
-
-        const currentDomain = domain;
-        const currentRouteKey = routeKey;
-
-        const routeDefinition = apiDefinition.endpoints[currentDomain][currentRouteKey] as RouteSchema;
-
-        if (!routeDefinition) {
-            console.error(`Route definition not found for domain "${String(currentDomain)}" and routeKey "${String(currentRouteKey)}"`);
-            return;
+// Helper function to read the request body as JSON or form data, depending on its content type
+async function readHonoBody(c: Context): Promise<unknown> {
+    try {
+        if (c.req.header('content-type')?.includes('application/json')) {
+            return await c.req.json();
         }
+        // Uploaded files are read by the file upload middleware; the body only carries the text fields, as with multer
+        const formBody = await c.req.parseBody();
+        return Object.fromEntries(Object.entries(formBody).filter(([, value]) => !(value instanceof File)));
+    } catch {
+        return undefined; // A malformed body then fails body validation like a missing one
+    }
+}
 
-        const { path, method } = routeDefinition;
-
-        // Apply prefix from API definition if it exists
-        const fullPath = apiDefinition.prefix
-            ? `${apiDefinition.prefix.startsWith('/') ? apiDefinition.prefix : `/${apiDefinition.prefix}`}${path}`.replace(/\/+/g, '/')
-            : path;
-
-        const honoMiddleware = async (
-            c: HonoTypedContext<TDef, typeof currentDomain, typeof currentRouteKey>
-        ) => {
-            try {
-                // Parse and validate request
-                const preprocessedParams = ('params' in routeDefinition && routeDefinition.params)
-                    ? preprocessParams(c.req.param(), routeDefinition.params as z.ZodTypeAny)
-                    : c.req.param();
-
-                const parsedParams = ('params' in routeDefinition && routeDefinition.params)
-                    ? (routeDefinition.params as z.ZodTypeAny).parse(preprocessedParams)
-                    : preprocessedParams;
-
-                const preprocessedQuery = ('query' in routeDefinition && routeDefinition.query)
-                    ? preprocessQueryParams(c.req.query(), routeDefinition.query as z.ZodTypeAny)
-                    : c.req.query();
-
-                const parsedQuery = ('query' in routeDefinition && routeDefinition.query)
-                    ? (routeDefinition.query as z.ZodTypeAny).parse(preprocessedQuery)
-                    : preprocessedQuery;
-
-                let parsedBody: any = undefined;
-                if (method === 'POST' || method === 'PUT' || method === 'DELETE' || method === 'PATCH') {
-                    if ('body' in routeDefinition && routeDefinition.body) {
-                        // For JSON requests
-                        if (c.req.header('content-type')?.includes('application/json')) {
-                            parsedBody = (routeDefinition.body as z.ZodTypeAny).parse(await c.req.json());
-                        } else {
-                            // For form data or other body types
-                            parsedBody = (routeDefinition.body as z.ZodTypeAny).parse(await c.req.parseBody());
-                        }
-                    } else {
-                        parsedBody = await c.req.parseBody();
-                    }
-                }
-
-                // Attach parsed data to context
-                (c as any).params = parsedParams;
-                (c as any).query = parsedQuery;
-                (c as any).body = parsedBody;
-
-                // Get context from Hono's context system
-                (c as any).ctx = c.get('ctx') || {};
-
-                // Add respond method to context
-                (c as any).respond = (status: number, data: any) => {
-                    // Call any registered response callbacks from middleware
-                    if ((c as any)._responseCallbacks) {
-                        (c as any)._responseCallbacks.forEach((callback: (status: number, data: any) => void) => {
-                            try {
-                                callback(status, data);
-                            } catch (error) {
-                                console.error('Error in response callback:', error);
-                            }
-                        });
-                    }
-
-                    const responseSchema = routeDefinition.responses[status];
-
-                    if (!responseSchema) {
-                        console.error(`No response schema defined for status ${status} in route ${String(currentDomain)}/${String(currentRouteKey)}`);
-                        (c as any).__response = c.json({
-                            data: null,
-                            error: [{ field: "general", type: "general", message: "Internal server error: Undefined response schema for status." }]
-                        }, 500);
-                        return;
-                    }
-
-                    let responseBody: any;
-
-                    if (status === 422) {
-                        responseBody = {
-                            data: null,
-                            error: data
-                        };
-                    } else {
-                        // Always use unified response format since CreateResponses wraps all schemas
-                        responseBody = {
-                            data: data,
-                            error: null
-                        };
-                    }
-
-                    const validationResult = responseSchema.safeParse(responseBody);
+// Helper function to turn a pipeline response into a Hono response
+function toHonoResponse(c: Context, response: NormalizedResponse, onStreamCancel: () => void): Response {
+    switch (response.type) {
+        case 'json': return c.json(response.body as object, response.status as ContentfulStatusCode, response.headers);
+        case 'empty': return c.newResponse(null, response.status as StatusCode, response.headers);
+        case 'raw': return c.newResponse(response.body as Parameters<Context['newResponse']>[0], response.status as StatusCode, response.headers);
+        case 'stream':
+            // SSE chunks are flushed as the handler produces them, for as long as the client stays connected
+            return c.newResponse(toReadableStream(response.stream, onStreamCancel), response.status as StatusCode, response.headers);
+    }
+}
 
-                    if (validationResult.success) {
-                        // Handle 204 responses specially - they must not have a body
-                        if (status === 204) {
-                            (c as any).__response = new Response(null, { status: status as any });
-                        } else {
-                            (c as any).__response = c.json(validationResult.data, status as any);
-                        }
-                    } else {
-                        console.error(
-                            `FATAL: Constructed response body failed Zod validation for status ${status} in route ${String(currentDomain)}/${String(currentRouteKey)}.`,
-                            validationResult.error.issues,
-                            'Expected schema shape:', (responseSchema._def as any)?.shape,
-                            'Provided data:', data,
-                            'Constructed response body:', responseBody
-                        );
-                        (c as any).__response = c.json({
-                            data: null,
-                            error: [{ field: "general", type: "general", message: "Internal server error: Constructed response failed validation." }]
-                        }, 500);
-                    }
-                };
-
-                // Create Express-like req/res objects for handler compatibility
-                const fakeReq = {
-                    params: parsedParams,
-                    query: parsedQuery,
-                    body: parsedBody,
-                    file: (c as any).file,
-                    files: (c as any).files,
-                    ctx: (c as any).ctx,
-                    headers: c.req.header(),
-                    ip: c.req.header('CF-Connecting-IP') || '127.0.0.1',
-                    method: c.req.method,
-                    path: c.req.path,
-                    originalUrl: c.req.url,
-                    // Hono doesn't support long-lived connections, so onClose is undefined
-                    onClose: undefined
-                } as TypedRequest<TDef, typeof currentDomain, typeof currentRouteKey>;
-
-                const fakeRes = {
-                    respond: (c as any).respond,
-                    respondContentType: (status: number, data: any, contentType: string) => {
-                        // For Hono, set the response directly
-                        (c as any).__response = new Response(data, {
-                            status: status,
-                            headers: { 'Content-Type': contentType }
-                        });
-                    },
-                    setHeader: (name: string, value: string) => {
-                        c.header(name, value);
-                        return fakeRes;
-                    },
-                    // SSE streaming methods for Hono
-                    startSSE: () => {
-                        c.header('Content-Type', 'text/event-stream');
-                        c.header('Cache-Control', 'no-cache');
-                        c.header('Connection', 'keep-alive');
-                        c.header('Access-Control-Allow-Origin', '*');
-                        c.header('Access-Control-Allow-Headers', 'Cache-Control');
-                    },
-                    streamSSE: (eventName?: string, data?: any, id?: string) => {
-                        let event = '';
-                        if (eventName) event += `event: ${eventName}\n`;
-                        if (id) event += `id: ${id}\n`;
-                        event += `data: ${JSON.stringify(data)}\n\n`;
-
-                        // For Hono, we need to accumulate the response
-                        if (!(c as any).__sseBuffer) {
-                            (c as any).__sseBuffer = '';
-                        }
-                        (c as any).__sseBuffer += event;
-                    },
-                    endStream: () => {
-                        // Send the accumulated SSE data
-                        const sseData = (c as any).__sseBuffer || '';
-                        (c as any).__response = new Response(sseData, {
-                            headers: {
-                                'Content-Type': 'text/event-stream',
-                                'Cache-Control': 'no-cache',
-                                'Connection': 'keep-alive'
-                            }
-                        });
-                    }
-                } as TypedResponse<TDef, typeof currentDomain, typeof currentRouteKey>;
-
-                const specificHandlerFn = handler as (
-                    req: TypedRequest<TDef, typeof currentDomain, typeof currentRouteKey>,
-                    res: TypedResponse<TDef, typeof currentDomain, typeof currentRouteKey>
-                ) => Promise<void> | void;
-
-                await specificHandlerFn(fakeReq, fakeRes);
-
-                // Return the response created by the handler
-                if ((c as any).__response) {
-                    return (c as any).__response;
-                } else {
-                    console.error('No response was set by the handler');
-                    return c.json({
-                        data: null,
-                        error: [{ field: "general", type: "general", message: "Internal server error: No response set by handler." }]
-                    }, 500);
-                }
+// Tracks client disconnection, seen as the request signal aborting or the response stream being cancelled
+function createHonoCloseNotifier(request: Request) {
+    const callbacks: Array<() => void> = [];
+    let closed = false;
 
-            } catch (error) {
-                if (error instanceof z.ZodError) {
-                    const mappedErrors: UnifiedError = error.issues.map(err => {
-                        let errorType: 'param' | 'query' | 'body' | 'general' = 'general';
-                        const pathZero = String(err.path[0]);
-                        if (pathZero === 'params') errorType = 'param';
-                        else if (pathZero === 'query') errorType = 'query';
-                        else if (pathZero === 'body') errorType = 'body';
-
-                        return {
-                            field: err.path.join('.') || 'request',
-                            message: err.message,
-                            type: errorType,
-                        };
-                    });
-
-                    const errorResponseBody = { data: null, error: mappedErrors };
-                    const schema422 = routeDefinition.responses[422];
-
-                    if (schema422) {
-                        const validationResult = schema422.safeParse(errorResponseBody);
-                        if (validationResult.success) {
-                            return c.json(validationResult.data, 422);
-                        } else {
-                            console.error("FATAL: Constructed 422 error response failed its own schema validation.", validationResult.error.issues);
-                            return c.json({ error: [{ field: "general", type: "general", message: "Internal server error constructing validation error response." }] }, 500);
-                        }
-                    } else {
-                        console.error("Error: 422 schema not found for route, sending raw Zod errors.");
-                        return c.json({ error: mappedErrors }, 422);
-                    }
-                } else if (error instanceof Error) {
-                    console.error(`Error in ${method} ${path}:`, error.message);
-                    return c.json({ error: [{ field: "general", type: "general", message: 'Internal server error' }] }, 500);
-                } else {
-                    console.error(`Unknown error in ${method} ${path}:`, error);
-                    return c.json({ error: [{ field: "general", type: "general", message: 'An unknown error occurred' }] }, 500);
-                }
+    const notify = () => {
+        if (closed) return;
+        closed = true;
+        callbacks.splice(0).forEach(callback => callback());
+    };
+    request.signal?.addEventListener('abort', notify, { once: true });
+
+    return {
+        notify,
+        onClose(callback: () => void) {
+            if (closed) {
+                callback();
+            } else {
+                callbacks.push(callback);
             }
-        };
+        }
+    };
+}
 
-        // Create middleware wrappers
-        const middlewareWrappers: MiddlewareHandler[] = [];
+// Server adapter that serves routes from a Hono app
+export const honoAdapter: ServerAdapter<Hono<any, any, any>> = {
+    registerRoute(app, route) {
+        const routeHandlers: MiddlewareHandler[] = [];
 
         // Add file upload middleware if configured
-        if (routeDefinition.fileUpload) {
+        if (route.definition.fileUpload) {
             try {
-                const fileUploadMiddleware = createHonoFileUploadMiddleware(routeDefinition.fileUpload);
-                middlewareWrappers.push(fileUploadMiddleware);
+                routeHandlers.push(createHonoFileUploadMiddleware(route.definition.fileUpload));
             } catch (error) {
-                console.error(`Error creating file upload middleware for ${currentDomain}.${currentRouteKey}:`, error);
+                console.error(`Error creating file upload middleware for ${route.domain}.${route.routeKey}:`, error);
                 return;
             }
         }
 
-        if (middlewares && middlewares.length > 0) {
-            middlewares.forEach(middleware => {
-                const wrappedMiddleware: MiddlewareHandler = async (c: any, next: any) => {
-                    try {
-                        // Create Express-like req object for middleware compatibility
-                        const fakeReq = {
-                            headers: c.req.header(),
-                            get ctx() { return c.get('ctx') || {}; },
-                            set ctx(value) { c.set('ctx', value); },
-                            method: c.req.method,
-                            path: c.req.path,
-                            originalUrl: c.req.url
-                        };
-
-                        // Create minimal res object with respond and onResponse methods for middleware compatibility
-                        const fakeRes = {
-                            respond: (status: number, data: any) => {
-                                // Call any registered response callbacks
-                                if ((c as any)._responseCallbacks) {
-                                    (c as any)._responseCallbacks.forEach((callback: (status: number, data: any) => void) => {
-                                        try {
-                                            callback(status, data);
-                                        } catch (error) {
-                                            console.error('Error in response callback:', error);
-                                        }
-                                    });
-                                }
-
-                                const responseSchema = routeDefinition.responses[status];
-
-                                if (!responseSchema) {
-                                    console.error(`No response schema defined for status ${status}`);
-                                    c.json({
-                                        data: null,
-                                        error: [{ field: "general", type: "general", message: "Internal server error: Undefined response schema for status." }]
-                                    }, 500);
-                                    return;
-                                }
-
-                                let responseBody: any;
-
-                                if (status === 422) {
-                                    responseBody = {
-                                        data: null,
-                                        error: data
-                                    };
-                                } else {
-                                    responseBody = {
-                                        data: data,
-                                        error: null
-                                    };
-                                }
-
-                                const validationResult = responseSchema.safeParse(responseBody);
-
-                                if (validationResult.success) {
-                                    // Handle 204 responses specially - they must not have a body
-                                    if (status === 204) {
-                                        (c as any).__response = new Response(null, { status: status as any });
-                                    } else {
-                                        (c as any).__response = c.json(validationResult.data, status as any);
-                                    }
-                                } else {
-                                    console.error(
-                                        `FATAL: Constructed response body failed Zod validation for status ${status}.`,
-                                        validationResult.error.issues,
-                                        'Provided data:', data,
-                                        'Constructed response body:', responseBody
-                                    );
-                                    (c as any).__response = c.json({
-                                        data: null,
-                                        error: [{ field: "general", type: "general", message: "Internal server error: Constructed response failed validation." }]
-                                    }, 500);
-                                }
-                            },
-                            status: (status: number) => {
-                                // For middleware that might use status, but since not used, stub
-                                (c as any).__response = new Response(null, { status: status });
-                            },
-                            json: (data: any) => {
-                                // Send json response
-                                (c as any).__response = c.json(data);
-                            },
-                            setHeader: (name: string, value: string) => {
-                                c.header(name, value);
-                            },
-                            end: () => {
-                                // Perhaps do nothing or set response
-                            },
-                            onResponse: (callback: (status: number, data: any) => void) => {
-                                // Store callback to be called when respond() is invoked
-                                if (!(c as any)._responseCallbacks) {
-                                    (c as any)._responseCallbacks = [];
-                                }
-                                (c as any)._responseCallbacks.push(callback);
-                            }
-                        };
-
-                        // Call Express-style middleware
-                        await middleware(fakeReq as any, fakeRes as any, next, { domain: currentDomain, routeKey: currentRouteKey });
-
-                        // Check if middleware responded directly
-                        if ((c as any).__response) {
-                            return (c as any).__response;
-                        }
-
-                    } catch (error) {
-                        console.error('Middleware error:', error);
-                        await next();
-                    }
-                };
-                middlewareWrappers.push(wrappedMiddleware);
+        routeHandlers.push(async (c: Context) => {
+            const closeNotifier = createHonoCloseNotifier(c.req.raw);
+            const hasBody = route.method === 'POST' || route.method === 'PUT' || route.method === 'DELETE' || route.method === 'PATCH';
+            const response = await route.handle({
+                method: c.req.method,
+                path: c.req.path,
+                url: c.req.url,
+                params: c.req.param(),
+                query: c.req.query(),
+                headers: c.req.header(),
+                body: hasBody ? await readHonoBody(c) : undefined,
+                file: (c as Context & HonoUploads).file,
+                files: (c as Context & HonoUploads).files,
+                ip: c.req.header('CF-Connecting-IP') || '127.0.0.1',
+                // Get context from Hono's context system
+                ctx: c.get('ctx') || {},
+                onClose: closeNotifier.onClose
             });
-        }
-
-        // Register route with middlewares
-        const allHandlers = [...middlewareWrappers, honoMiddleware];
+            return toHonoResponse(c, response, closeNotifier.notify);
+        });
 
         // Register with Hono
-        switch (method.toUpperCase()) {
-            case 'GET': app.get(fullPath, ...(allHandlers as any)); break;
-            case 'POST': app.post(fullPath, ...(allHandlers as any)); break;
-            case 'PATCH': app.patch(fullPath, ...(allHandlers as any)); break;
-            case 'PUT': app.put(fullPath, ...(allHandlers as any)); break;
-            case 'DELETE': app.delete(fullPath, ...(allHandlers as any)); break;
+        switch (route.method.toUpperCase()) {
+            case 'GET': app.get(route.path, ...routeHandlers); break;
+            case 'POST': app.post(route.path, ...routeHandlers); break;
+            case 'PATCH': app.patch(route.path, ...routeHandlers); break;
+            case 'OPTIONS': app.options(route.path, ...routeHandlers); break;
+            case 'PUT': app.put(route.path, ...routeHandlers); break;
+            case 'DELETE': app.delete(route.path, ...routeHandlers); break;
             default:
-                console.warn(`Unsupported HTTP method: ${method} for path ${fullPath}`);
+                console.warn(`Unsupported HTTP method: ${route.method} for path ${route.path}`);
         }
-    });
-}
+    }
+};
 
-// Transform object-based handlers to array format
-function transformObjectHandlersToArray<
+// Register route handlers with Hono, now generic over TDef
+export function registerHonoRouteHandlers<
     TDef extends ApiDefinitionSchema,
-    Ctx extends Record<string, any> = Record<string, any>
+    TBindings extends Env = Env,
+    TVariables extends Record<string, never> = Record<string, never>,
+    TPath extends string = "/"
 >(
-    objectHandlers: ObjectHandlers<TDef, Ctx>
-): Array<SpecificRouteHandler<TDef>> {
-    const handlerArray: Array<SpecificRouteHandler<TDef>> = [];
-
-    for (const domain in objectHandlers) {
-        if (Object.prototype.hasOwnProperty.call(objectHandlers, domain)) {
-            const domainHandlers = objectHandlers[domain];
-
-            for (const routeKey in domainHandlers) {
-                if (Object.prototype.hasOwnProperty.call(domainHandlers, routeKey)) {
-                    const handler = domainHandlers[routeKey];
-
-                    handlerArray.push({
-                        domain,
-                        routeKey,
-                        handler
-                    } as SpecificRouteHandler<TDef>);
-                }
-            }
-        }
-    }
-
-    return handlerArray;
+    app: Hono<TBindings, TVariables, TPath>,
+    apiDefinition: TDef,
+    routeHandlers: Array<SpecificRouteHandler<TDef>>,
+    middlewares?: EndpointMiddleware<TDef>[],
+    errorHandler?: ErrorHandler
+) {
+    registerAdapterRouteHandlers(honoAdapter, app, apiDefinition, routeHandlers, middlewares, errorHandler);
 }
 
 // Main utility function that registers object-based handlers with Hono
@@ -767,26 +370,15 @@ export function RegisterHonoHandlers<
     app: Hono<TBindings, TVariables, TPath>,
     apiDefinition: TDef,
     objectHandlers: ObjectHandlers<TDef, Ctx>,
-    middlewares?: AnyMiddleware<TDef>[]
+    middlewares?: AnyMiddleware<TDef>[],
+    errorHandler?: ErrorHandler
 ): void {
     const handlerArray = transformObjectHandlersToArray(objectHandlers);
+    const endpointMiddlewares = toEndpointMiddlewares(middlewares);
 
-    // Convert AnyMiddleware to EndpointMiddleware by checking function arity
-    const endpointMiddlewares: EndpointMiddleware<TDef>[] = middlewares?.map(middleware => {
-        if (middleware && middleware.length === 4) {
-            return middleware as EndpointMiddleware<TDef>;
-        } else {
-            return ((req, res, next) => {
-                return (middleware as SimpleMiddleware)(req, res, next);
-            }) as EndpointMiddleware<TDef>;
-        }
-    }) || [];
-
-    registerHonoRouteHandlers(app, apiDefinition, handlerArray, endpointMiddlewares);
+    registerHonoRouteHandlers(app, apiDefinition, handlerArray, endpointMiddlewares, errorHandler);
 }
 
-
-
 export function CreateTypedHonoHandlerWithContext<Ctx extends Record<string, any>>() {
     return function <
         TDef extends ApiDefinitionSchema,
@@ -797,8 +389,9 @@ export function CreateTypedHonoHandlerWithContext<Ctx extends Record<string, any
         app: Hono<TBindings, TVariables, TPath>,
         apiDefinition: TDef,
         objectHandlers: ObjectHandlers<TDef, Ctx>,
-        middlewares?: AnyMiddleware<TDef>[]
+        middlewares?: AnyMiddleware<TDef>[],
+        errorHandler?: ErrorHandler
     ) {
-        return RegisterHonoHandlers(app, apiDefinition, objectHandlers, middlewares);
+        return RegisterHonoHandlers(app, apiDefinition, objectHandlers, middlewares, errorHandler);
     };
 }
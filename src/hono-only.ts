@@ -1,6 +1,6 @@
 // Hono-only exports - for Cloudflare Workers and other Hono environments
 // Excludes Express dependencies like multer, busboy, etc.
-export { CreateApiDefinition, CreateResponses } from './definition';
+export { CreateApiDefinition, CreateResponses, ResponseWithHeaders, Redirect, FileResponse, TextResponse, JsonLinesResponse, HttpError, createRouteError } from './definition';
 export { z as ZodSchema } from 'zod';
 export { EndpointMiddleware, EndpointMiddlewareCtx, EndpointInfo } from './object-handlers'
 
@@ -8,6 +8,14 @@ export { EndpointMiddleware, EndpointMiddlewareCtx, EndpointInfo } from './objec
 // Hono adapter for Cloudflare Workers
 export { RegisterHonoHandlers, CreateTypedHonoHandlerWithContext } from './hono-cloudflare-workers';
 
+// Standard Fetch API handler, for Workers without Hono
+export { createFetchHandler } from './fetch';
+
+// Typed pub/sub channels over SSE
+export { createChannels, InMemoryChannelBroker } from './channels';
+// Schema-driven mock handlers
+export { createMockHandlers, generateMockData } from './mock';
+
 // Re-export types that are needed for Hono development
 export type {
     ApiDefinitionSchema,
@@ -15,6 +23,13 @@ export type {
     UnifiedError,
     FileUploadConfig,
     HttpSuccessStatusCode,
+    HttpRedirectStatusCode,
+    ResponseBodyKind,
+    ResponseFile,
+    ResponseFileInput,
+    SseEventsSchema,
+    ApiSseEvents,
+    ApiStreamItem,
     HttpClientErrorStatusCode,
     HttpServerErrorStatusCode,
     AllowedInputStatusCode,
@@ -27,3 +42,23 @@ export type {
     HonoFileType,
     HonoTypedContext
 } from './hono-cloudflare-workers';
+
+export type {
+    FetchHandlerOptions,
+    FetchFile
+} from './fetch';
+
+
+export type {
+    Channels,
+    ChannelBroker,
+    ChannelMessage,
+    ChannelDefinitions,
+    ChannelEvents,
+    ChannelsOptions
+} from './channels';
+
+export type {
+    MockHandlersOptions,
+    MockHandlerOverrides
+} from './mock';
\ No newline at end of file
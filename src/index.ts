@@ -1,10 +1,25 @@
-export { ApiClient, FetchHttpClientAdapter } from './client';
+export { ApiClient, FetchHttpClientAdapter, ApiCallError, TimeoutError, AbortError, ResponseValidationError, ApiClientInterceptor, ApiRequestContext, ApiRequestRetry, createTokenAuthInterceptor, saveResponseFile, TokenAuthOptions, RetryPolicy, SseMessage, SseSubscription, SubscribeHandlers, SubscribeOptions, StreamItemsOptions } from './client';
 export { generateOpenApiSpec } from './openapi'
 export { generateOpenApiSpec as generateOpenApiSpec2 } from './openapi-self'
-export { CreateApiDefinition, CreateResponses, ApiDefinitionSchema, ErrorHandler } from './definition';
+export { CreateApiDefinition, CreateResponses, ResponseWithHeaders, Redirect, FileResponse, TextResponse, JsonLinesResponse, HttpError, createRouteError, ApiDefinitionSchema, ErrorHandler, ResponseBodyKind, ResponseFile, ResponseFileInput, SseEventsSchema, ApiSseEvents, ApiStreamItem } from './definition';
 export { RegisterHandlers, EndpointMiddleware, UniversalEndpointMiddleware, SimpleMiddleware, EndpointInfo, MiddlewareResponse } from './object-handlers';
 export { File as UploadedFile } from './router';
+export { getSSEConnections, closeSSEConnections, SSEConnection, ExpressHandlerOptions } from './handler';
+export { RegisterAdapterHandlers, ServerAdapter, AdapterRoute, NormalizedRequest, NormalizedResponse, PipelineNative, PipelineResponse, SSEOptions } from './core';
 export { z as ZodSchema } from 'zod';
 
 // Hono adapter for Cloudflare Workers
 export { RegisterHonoHandlers, registerHonoRouteHandlers, HonoFile, HonoFileType, honoFileSchema, HonoTypedContext, CreateTypedHonoHandlerWithContext } from './hono-cloudflare-workers';
+
+// Fastify adapter
+export { RegisterFastifyHandlers, registerFastifyRouteHandlers, FastifyFile } from './fastify';
+// Standard Fetch API handler (Request -> Response)
+export { createFetchHandler, FetchHandlerOptions, FetchFile } from './fetch';
+// AWS Lambda (API Gateway proxy integration) handler
+export { createLambdaHandler, LambdaHandler, LambdaHandlerOptions, ApiGatewayProxyEvent, ApiGatewayProxyEventV1, ApiGatewayProxyEventV2, ApiGatewayProxyResultV1, ApiGatewayProxyResultV2 } from './lambda';
+// In-memory test client
+export { createTestClient, InMemoryHttpClientAdapter } from './test-client';
+// Typed pub/sub channels over SSE
+export { createChannels, InMemoryChannelBroker, Channels, ChannelBroker, ChannelMessage, ChannelDefinitions, ChannelEvents, ChannelsOptions } from './channels';
+// Schema-driven mock handlers
+export { createMockHandlers, generateMockData, MockHandlersOptions, MockHandlerOverrides } from './mock';
\ No newline at end of file
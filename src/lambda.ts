@@ -0,0 +1,161 @@
+import { ApiDefinitionSchema } from './definition';
+import { ObjectHandlers } from './object-handlers';
+import { FetchHandlerOptions, buildFetchRequestHandler } from './fetch';
+
+// API Gateway REST API (v1) proxy event, limited to the fields the adapter reads
+export interface ApiGatewayProxyEventV1 {
+    httpMethod: string;
+    path: string;
+    headers?: Record<string, string | undefined> | null;
+    multiValueHeaders?: Record<string, string[] | undefined> | null;
+    queryStringParameters?: Record<string, string | undefined> | null;
+    multiValueQueryStringParameters?: Record<string, string[] | undefined> | null;
+    body?: string | null;
+    isBase64Encoded?: boolean;
+    requestContext?: { identity?: { sourceIp?: string } };
+}
+
+// API Gateway HTTP API (v2) proxy event, limited to the fields the adapter reads
+export interface ApiGatewayProxyEventV2 {
+    version: '2.0';
+    rawPath: string;
+    rawQueryString?: string;
+    headers?: Record<string, string | undefined>;
+    cookies?: string[];
+    body?: string;
+    isBase64Encoded?: boolean;
+    requestContext: { http: { method: string; sourceIp?: string } };
+}
+
+export type ApiGatewayProxyEvent = ApiGatewayProxyEventV1 | ApiGatewayProxyEventV2;
+
+export interface ApiGatewayProxyResultV1 {
+    statusCode: number;
+    headers: Record<string, string>;
+    multiValueHeaders?: Record<string, string[]>;
+    body: string;
+    isBase64Encoded: boolean;
+}
+
+export interface ApiGatewayProxyResultV2 {
+    statusCode: number;
+    headers: Record<string, string>;
+    cookies?: string[];
+    body: string;
+    isBase64Encoded: boolean;
+}
+
+export interface LambdaHandlerOptions<TDef extends ApiDefinitionSchema = ApiDefinitionSchema> extends FetchHandlerOptions<TDef> {
+    // Path prefix to strip before routing, e.g. the stage ('/prod') or a custom domain base path mapping
+    basePath?: string;
+}
+
+export type LambdaHandler = {
+    (event: ApiGatewayProxyEventV2): Promise<ApiGatewayProxyResultV2>;
+    (event: ApiGatewayProxyEventV1): Promise<ApiGatewayProxyResultV1>;
+};
+
+// Response bodies of these content types are returned as text, everything else is base64 encoded
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded)|[^;]*\+(json|xml))/i;
+
+function isV2Event(event: ApiGatewayProxyEvent): event is ApiGatewayProxyEventV2 {
+    return (event as ApiGatewayProxyEventV2).version === '2.0';
+}
+
+// Helper function to remove the configured base path from the event path; it only matches whole segments
+function stripBasePath(path: string, basePath?: string): string {
+    if (!basePath || (path !== basePath && !path.startsWith(`${basePath}/`))) return path;
+    return path.slice(basePath.length) || '/';
+}
+
+// Helper function to turn an API Gateway proxy event (v1 or v2) into a Fetch API Request
+function toFetchRequest(event: ApiGatewayProxyEvent, basePath?: string): Request {
+    const headers = new Headers();
+    let method: string;
+    let path: string;
+    let search: string;
+
+    if (isV2Event(event)) {
+        method = event.requestContext.http.method;
+        path = event.rawPath;
+        search = event.rawQueryString ?? '';
+        for (const [name, value] of Object.entries(event.headers ?? {})) {
+            if (value !== undefined) headers.set(name, value);
+        }
+        // HTTP APIs move the Cookie header into a separate array
+        if (event.cookies?.length) {
+            headers.set('cookie', event.cookies.join('; '));
+        }
+    } else {
+        method = event.httpMethod;
+        path = event.path;
+        const searchParams = new URLSearchParams();
+        if (event.multiValueQueryStringParameters) {
+            for (const [name, values] of Object.entries(event.multiValueQueryStringParameters)) {
+                values?.forEach(value => searchParams.append(name, value));
+            }
+        } else {
+            for (const [name, value] of Object.entries(event.queryStringParameters ?? {})) {
+                if (value !== undefined) searchParams.append(name, value);
+            }
+        }
+        search = searchParams.toString();
+        if (event.multiValueHeaders) {
+            for (const [name, values] of Object.entries(event.multiValueHeaders)) {
+                values?.forEach(value => headers.append(name, value));
+            }
+        } else {
+            for (const [name, value] of Object.entries(event.headers ?? {})) {
+                if (value !== undefined) headers.set(name, value);
+            }
+        }
+    }
+
+    const hasBody = event.body !== undefined && event.body !== null && method !== 'GET' && method !== 'HEAD';
+    const body = hasBody ? Buffer.from(event.body as string, event.isBase64Encoded ? 'base64' : 'utf8') : undefined;
+    const host = headers.get('host') ?? 'localhost';
+    const url = `https://${host}${stripBasePath(path, basePath)}${search ? `?${search}` : ''}`;
+
+    return new Request(url, { method, headers, body });
+}
+
+// Helper function to turn a Fetch API Response into an API Gateway proxy result
+async function toProxyResult(response: Response, v2: boolean): Promise<ApiGatewayProxyResultV1 | ApiGatewayProxyResultV2> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+        if (name !== 'set-cookie') headers[name] = value;
+    });
+    const setCookies = response.headers.getSetCookie();
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const isBase64Encoded = buffer.length > 0 && !TEXT_CONTENT_TYPE.test(contentType);
+    const body = buffer.toString(isBase64Encoded ? 'base64' : 'utf8');
+
+    if (v2) {
+        return { statusCode: response.status, headers, ...(setCookies.length ? { cookies: setCookies } : {}), body, isBase64Encoded };
+    }
+    return { statusCode: response.status, headers, ...(setCookies.length ? { multiValueHeaders: { 'set-cookie': setCookies } } : {}), body, isBase64Encoded };
+}
+
+// Creates an AWS Lambda handler for API Gateway proxy integrations (REST API v1 and HTTP API v2),
+// routing by method, prefix and path from the definition and serving the same ObjectHandlers as Express.
+// Responses are buffered, since API Gateway proxy results carry the whole body.
+export function createLambdaHandler<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    apiDefinition: TDef,
+    objectHandlers: ObjectHandlers<TDef, Ctx>,
+    options: LambdaHandlerOptions<TDef> = {}
+): LambdaHandler {
+    const handleRequest = buildFetchRequestHandler(apiDefinition, objectHandlers, options);
+
+    const handler = async (event: ApiGatewayProxyEvent) => {
+        const v2 = isV2Event(event);
+        const ip = v2 ? event.requestContext.http.sourceIp : event.requestContext?.identity?.sourceIp;
+        const response = await handleRequest(toFetchRequest(event, options.basePath), ip);
+        return toProxyResult(response, v2);
+    };
+    return handler as LambdaHandler;
+}
@@ -0,0 +1,264 @@
+import { z, ZodTypeAny } from 'zod';
+import { ApiDefinitionSchema, RouteSchema, getResponseHeadersSchema, getResponseBodyKind, isNoBodyStatus } from './definition';
+import { ObjectHandlers } from './object-handlers';
+import type { PipelineResponse } from './core';
+
+// Per-route handlers replacing the generated ones
+export type MockHandlerOverrides<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+> = {
+        [TDomain in keyof TDef['endpoints']]?: Partial<ObjectHandlers<TDef, Ctx>[TDomain]>;
+    };
+
+export interface MockHandlersOptions<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+> {
+    // Seed for the generated data; the same seed always produces the same responses
+    seed?: number;
+    overrides?: MockHandlerOverrides<TDef, Ctx>;
+}
+
+// Array length used when the schema does not constrain it
+const DEFAULT_ARRAY_LENGTH = 3;
+// Nesting depth after which recursive (lazy) schemas stop producing values
+const MAX_DEPTH = 8;
+// Generated values failing refinements (regexes, custom checks) are retried this many times
+const MAX_ATTEMPTS = 20;
+
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet', 'kilo', 'lima', 'mike', 'november', 'oscar', 'papa'];
+
+type Random = () => number;
+
+// Small seeded PRNG (mulberry32), so mock data is reproducible without a dependency
+function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Helper function to derive a stable seed from the user seed and a route name
+function hashSeed(seed: number, key: string): number {
+    let hash = seed >>> 0;
+    for (let i = 0; i < key.length; i++) {
+        hash = Math.imul(hash ^ key.charCodeAt(i), 2654435761) >>> 0;
+    }
+    return hash;
+}
+
+function randomInt(random: Random, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+    return values[Math.floor(random() * values.length)];
+}
+
+function hex(random: Random, length: number): string {
+    let result = '';
+    for (let i = 0; i < length; i++) result += Math.floor(random() * 16).toString(16);
+    return result;
+}
+
+// Helper function to read the min/max length checks of an array schema
+function getArrayLengthBounds(schema: z.ZodArray<any>) {
+    let min = 0;
+    let max = Infinity;
+    for (const check of (schema._zod.def.checks ?? []) as any[]) {
+        const def = check._zod.def;
+        if (def.check === 'min_length') min = Math.max(min, def.minimum);
+        if (def.check === 'max_length') max = Math.min(max, def.maximum);
+        if (def.check === 'length_equals') min = max = def.length;
+    }
+    return { min, max };
+}
+
+function generateDate(random: Random): Date {
+    // Any moment in 2020-2025
+    return new Date(Date.UTC(2020, 0, 1) + Math.floor(random() * 6 * 365 * 24 * 3600) * 1000);
+}
+
+function generateString(schema: z.ZodString | z.ZodStringFormat, random: Random): string {
+    const date = generateDate(random);
+    switch (schema.format) {
+        case 'email': return `${pick(random, WORDS)}.${pick(random, WORDS)}@example.com`;
+        case 'url': return `https://example.com/${pick(random, WORDS)}`;
+        case 'uuid':
+        case 'guid': return `${hex(random, 8)}-${hex(random, 4)}-4${hex(random, 3)}-a${hex(random, 3)}-${hex(random, 12)}`;
+        case 'datetime': return date.toISOString();
+        case 'date': return date.toISOString().slice(0, 10);
+        case 'time': return date.toISOString().slice(11, 19);
+        case 'ipv4': return [0, 0, 0, 0].map(() => randomInt(random, 1, 254)).join('.');
+        case 'ipv6': return Array.from({ length: 8 }, () => hex(random, 4)).join(':');
+        case 'cuid': return `c${hex(random, 24)}`;
+    }
+
+    const checks = (schema._zod.def.checks ?? []).map(check => (check as any)._zod.def);
+    const prefix = checks.find(def => def.format === 'starts_with')?.prefix ?? '';
+    const suffix = checks.find(def => def.format === 'ends_with')?.suffix ?? '';
+    const includes = checks.find(def => def.format === 'includes')?.includes ?? '';
+
+    const minLength = schema.minLength ?? 0;
+    const maxLength = schema.maxLength ?? Math.max(minLength, 16);
+    const words: string[] = [];
+    const build = () => prefix + includes + words.join(' ') + suffix;
+    do {
+        words.push(pick(random, WORDS));
+    } while (build().length < minLength);
+
+    let value = build();
+    if (value.length > maxLength) {
+        value = (prefix + includes + words.join('')).slice(0, maxLength - suffix.length) + suffix;
+    }
+    return value;
+}
+
+function generateNumber(schema: z.ZodNumber, random: Random): number {
+    const min = Number.isFinite(schema.minValue) ? schema.minValue! : 0;
+    const max = Number.isFinite(schema.maxValue) ? schema.maxValue! : min + 1000;
+    if (schema.isInt) {
+        return randomInt(random, Math.ceil(min), Math.floor(max));
+    }
+    return Math.round((min + random() * (max - min)) * 100) / 100;
+}
+
+function generateValue(schema: ZodTypeAny, random: Random, depth: number): unknown {
+    if (depth > MAX_DEPTH) return undefined;
+
+    if (schema instanceof z.ZodOptional) {
+        return random() < 0.2 ? undefined : generateValue(schema.unwrap() as ZodTypeAny, random, depth);
+    }
+    if (schema instanceof z.ZodNullable) {
+        return random() < 0.2 ? null : generateValue(schema.unwrap() as ZodTypeAny, random, depth);
+    }
+    if (schema instanceof z.ZodDefault || schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) {
+        return generateValue(schema._zod.def.innerType as ZodTypeAny, random, depth);
+    }
+    if (schema instanceof z.ZodLazy) {
+        return generateValue(schema._zod.def.getter() as ZodTypeAny, random, depth + 1);
+    }
+    if (schema instanceof z.ZodPipe) {
+        return generateValue(schema._zod.def.in as ZodTypeAny, random, depth);
+    }
+
+    if (schema instanceof z.ZodString || schema instanceof z.ZodStringFormat) return generateString(schema, random);
+    if (schema instanceof z.ZodNumber) return generateNumber(schema, random);
+    if (schema instanceof z.ZodBoolean) return random() < 0.5;
+    if (schema instanceof z.ZodDate) return generateDate(random);
+    if (schema instanceof z.ZodEnum) return pick(random, schema.options);
+    if (schema instanceof z.ZodLiteral) return pick(random, Array.from(schema.values));
+    if (schema instanceof z.ZodNull) return null;
+
+    if (schema instanceof z.ZodUnion) {
+        return generateValue(pick(random, schema.options) as ZodTypeAny, random, depth);
+    }
+    if (schema instanceof z.ZodIntersection) {
+        const left = generateValue(schema._zod.def.left as ZodTypeAny, random, depth);
+        const right = generateValue(schema._zod.def.right as ZodTypeAny, random, depth);
+        return typeof left === 'object' && typeof right === 'object' ? { ...left, ...right } : right;
+    }
+    if (schema instanceof z.ZodObject) {
+        const result: Record<string, unknown> = {};
+        for (const [key, fieldSchema] of Object.entries(schema.shape)) {
+            const value = generateValue(fieldSchema as ZodTypeAny, random, depth + 1);
+            if (value !== undefined) result[key] = value;
+        }
+        return result;
+    }
+    if (schema instanceof z.ZodArray) {
+        const { min, max } = getArrayLengthBounds(schema);
+        const length = depth >= MAX_DEPTH - 1 ? min : Math.min(Math.max(DEFAULT_ARRAY_LENGTH, min), max);
+        return Array.from({ length }, () => generateValue(schema.element as ZodTypeAny, random, depth + 1));
+    }
+    if (schema instanceof z.ZodTuple) {
+        return schema._zod.def.items.map(item => generateValue(item as ZodTypeAny, random, depth + 1));
+    }
+    if (schema instanceof z.ZodRecord) {
+        const keySchema = schema._zod.def.keyType as ZodTypeAny;
+        const result: Record<string, unknown> = {};
+        for (let i = 0; i < 2; i++) {
+            const key = keySchema instanceof z.ZodString ? pick(random, WORDS) : generateValue(keySchema, random, depth + 1);
+            result[String(key)] = generateValue(schema._zod.def.valueType as ZodTypeAny, random, depth + 1);
+        }
+        return result;
+    }
+
+    // z.any(), z.unknown(), z.void() and types that cannot be sent as JSON
+    return null;
+}
+
+/**
+ * Generates a deterministic fake value matching a Zod schema: enums, min/max, string formats,
+ * nullable/optional fields and arrays are respected, and the same seed always gives the same value.
+ * Throws when no valid value could be generated, e.g. for a custom regex or refinement.
+ */
+export function generateMockData<TSchema extends ZodTypeAny>(schema: TSchema, seed: number = 1): z.output<TSchema> {
+    const random = createRandom(seed);
+    let lastError: z.ZodError | undefined;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const result = schema.safeParse(generateValue(schema, random, 0));
+        if (result.success) {
+            return result.data as z.output<TSchema>;
+        }
+        lastError = result.error;
+    }
+    throw new Error(`Could not generate mock data matching the schema: ${lastError?.issues[0]?.message}`);
+}
+
+// Helper function to find the status a mock handler responds with: the first declared 2xx, else the first declared status
+function getMockStatus(route: RouteSchema): number {
+    const statuses = Object.keys(route.responses).map(Number).sort((a, b) => a - b);
+    return statuses.find(status => status >= 200 && status < 300) ?? statuses[0];
+}
+
+/**
+ * Creates an ObjectHandlers implementation that answers every route with deterministic fake data
+ * generated from its success response schema, so clients can be built against the definition before
+ * the backend exists. Pass the result to RegisterHandlers, RegisterHonoHandlers or any other adapter.
+ * @param apiDefinition The API definition object.
+ * @param options Seed for the generated data and per-route handler overrides.
+ */
+export function createMockHandlers<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    apiDefinition: TDef,
+    options: MockHandlersOptions<TDef, Ctx> = {}
+): ObjectHandlers<TDef, Ctx> {
+    const seed = options.seed ?? 1;
+    const handlers: Record<string, Record<string, unknown>> = {};
+
+    for (const domain of Object.keys(apiDefinition.endpoints)) {
+        handlers[domain] = {};
+        for (const [routeKey, route] of Object.entries(apiDefinition.endpoints[domain]) as Array<[string, RouteSchema]>) {
+            const override = (options.overrides as Record<string, Record<string, unknown> | undefined> | undefined)?.[domain]?.[routeKey];
+            if (override) {
+                handlers[domain][routeKey] = override;
+                continue;
+            }
+
+            const status = getMockStatus(route);
+            const responseSchema = route.responses[status];
+            const dataSchema = (responseSchema as z.ZodObject).shape.data as ZodTypeAny;
+            const headersSchema = getResponseHeadersSchema(responseSchema);
+            const bodyKind = getResponseBodyKind(responseSchema);
+            const routeSeed = hashSeed(seed, `${domain}.${routeKey}`);
+
+            handlers[domain][routeKey] = (_req: unknown, res: Pick<PipelineResponse, 'respond'>) => {
+                const data = isNoBodyStatus(status) ? null
+                    : bodyKind ? { body: '' } // FileResponse/TextResponse: an empty file
+                    : generateMockData(dataSchema, routeSeed);
+                const headers = headersSchema ? generateMockData(headersSchema, routeSeed) as Record<string, unknown> : undefined;
+                res.respond(status, data, headers);
+            };
+        }
+    }
+
+    return handlers as ObjectHandlers<TDef, Ctx>;
+}
@@ -1,7 +1,8 @@
 import express from "express";
 import { ApiDefinitionSchema, ApiParams, ApiBody, ApiQuery } from "./definition";
-import { registerRouteHandlers, SpecificRouteHandler } from "./handler";
+import { ExpressHandlerOptions, registerRouteHandlers } from "./handler";
 import { TypedRequest, TypedResponse } from "./router";
+import { MiddlewareResponse, transformObjectHandlersToArray, toEndpointMiddlewares } from "./core";
 
 export type EndpointInfo<TDef extends ApiDefinitionSchema = ApiDefinitionSchema> = {
     [TDomain in keyof TDef['endpoints']]: {
@@ -37,14 +38,7 @@ export type UniversalEndpointMiddleware = (
 ) => void | Promise<void>;
 
 // Custom response interface for framework-agnostic middleware
-export interface MiddlewareResponse {
-    respond(status: number, data: any): void;
-    status(code: number): this;
-    json(data: any): void;
-    setHeader(name: string, value: string): void;
-    end(): void;
-    onResponse(callback: (status: number, data: any) => void): void;
-}
+export type { MiddlewareResponse } from "./core";
 
 // Unified middleware type that works for both Express and Hono with context typing
 export type EndpointMiddlewareCtx<
@@ -84,39 +78,6 @@ export type ObjectHandlers<
         };
     };
 
-// Transform object-based handlers to array format
-function transformObjectHandlersToArray<
-    TDef extends ApiDefinitionSchema,
-    Ctx extends Record<string, any> = Record<string, any>
->(
-    objectHandlers: ObjectHandlers<TDef, Ctx>
-): Array<SpecificRouteHandler<TDef>> {
-    const handlerArray: Array<SpecificRouteHandler<TDef>> = [];
-
-    // Iterate through domains
-    for (const domain in objectHandlers) {
-        if (Object.prototype.hasOwnProperty.call(objectHandlers, domain)) {
-            const domainHandlers = objectHandlers[domain];
-
-            // Iterate through routes in this domain
-            for (const routeKey in domainHandlers) {
-                if (Object.prototype.hasOwnProperty.call(domainHandlers, routeKey)) {
-                    const handler = domainHandlers[routeKey];
-
-                    // Create the handler object in the format expected by registerRouteHandlers
-                    handlerArray.push({
-                        domain,
-                        routeKey,
-                        handler
-                    } as SpecificRouteHandler<TDef>);
-                }
-            }
-        }
-    }
-
-    return handlerArray;
-}
-
 // Main utility function that registers object-based handlers
 export function RegisterHandlers<
     TDef extends ApiDefinitionSchema,
@@ -126,25 +87,13 @@ export function RegisterHandlers<
     apiDefinition: TDef,
     objectHandlers: ObjectHandlers<TDef, Ctx>,
     middlewares?: AnyMiddleware<TDef>[],
-    errorHandler?: import('./definition').ErrorHandler
+    errorHandler?: import('./definition').ErrorHandler,
+    options?: ExpressHandlerOptions
 ): void {
     const handlerArray = transformObjectHandlersToArray(objectHandlers);
+    const endpointMiddlewares = toEndpointMiddlewares(middlewares);
 
-    // Convert AnyMiddleware to EndpointMiddleware by checking function arity
-    const endpointMiddlewares: EndpointMiddleware<TDef>[] = middlewares?.map(middleware => {
-        // Check if middleware expects 4 parameters (including endpointInfo)
-        if (middleware.length === 4) {
-            // It's already an EndpointMiddleware
-            return middleware as EndpointMiddleware<TDef>;
-        } else {
-            // It's a SimpleMiddleware, wrap it to ignore endpointInfo
-            return ((req, res, next) => {
-                return (middleware as SimpleMiddleware)(req, res, next);
-            }) as EndpointMiddleware<TDef>;
-        }
-    }) || [];
-
-    registerRouteHandlers(app, apiDefinition, handlerArray, endpointMiddlewares, errorHandler);
+    registerRouteHandlers(app, apiDefinition, handlerArray, endpointMiddlewares, errorHandler, options);
 }
 
 // Factory function to create a typed handler registrar for a specific API definition
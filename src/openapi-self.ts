@@ -1,5 +1,5 @@
 import { ZodTypeAny, ZodObject, ZodArray, ZodString, ZodNumber, ZodBoolean, ZodEnum, ZodOptional, ZodNullable, ZodUnion, ZodRecord, ZodLiteral, ZodVoid, ZodAny, ZodUnknown } from 'zod';
-import { ApiDefinitionSchema, RouteSchema } from './definition';
+import { ApiDefinitionSchema, RouteSchema, getResponseHeadersSchema, getResponseBodyKind, getResponseItemSchema, JSON_LINES_CONTENT_TYPE, isRedirectResponse, isNoBodyStatus, extractPathParams, parsePathTemplate, PathToken } from './definition';
 
 // OpenAPI 3.0 specification types
 export interface OpenAPISpec {
@@ -58,9 +58,16 @@ export interface RequestBody {
 
 export interface Response {
     description: string;
+    headers?: Record<string, Header>;
     content?: Record<string, MediaType>;
 }
 
+export interface Header {
+    description?: string;
+    required?: boolean;
+    schema: SchemaObject;
+}
+
 export interface MediaType {
     schema: SchemaObject;
 }
@@ -419,20 +426,25 @@ class SchemaRegistry {
 }
 
 function convertPathToOpenAPI(path: string): string {
-    // Convert Express-style path parameters (:param) to OpenAPI style ({param})
-    return path.replace(/:([^/]+)/g, '{$1}');
-}
-
-function extractPathParameters(path: string): string[] {
-    const matches = path.match(/:([^/]+)/g);
-    return matches ? matches.map(match => match.substring(1)) : [];
+    // Convert path placeholders (:param, *wildcard) to OpenAPI style ({param}); OpenAPI has no optional
+    // path segments, so the contents of optional groups are kept as they are
+    const format = (tokens: PathToken[]): string => tokens.map(token => {
+        switch (token.type) {
+            case 'text': return token.value;
+            case 'group': return format(token.tokens);
+            default: return token.name ? `{${token.name}}` : '*';
+        }
+    }).join('');
+    return format(parsePathTemplate(path));
 }
 
 function createParameters(
     pathParams: string[],
     paramsSchema?: ZodTypeAny,
     querySchema?: ZodTypeAny,
-    registry?: SchemaRegistry
+    registry?: SchemaRegistry,
+    headersSchema?: ZodTypeAny,
+    cookiesSchema?: ZodTypeAny
 ): Parameter[] {
     const parameters: Parameter[] = [];
 
@@ -466,23 +478,39 @@ function createParameters(
         }
     }
 
-    // Add query parameters
-    if (querySchema instanceof ZodObject && registry) {
+    // Add query, header and cookie parameters
+    if (registry) {
+        parameters.push(...createObjectParameters(querySchema, 'query', registry));
+        parameters.push(...createObjectParameters(headersSchema, 'header', registry));
+        parameters.push(...createObjectParameters(cookiesSchema, 'cookie', registry));
+    }
+
+    return parameters;
+}
+
+function createObjectParameters(
+    schema: ZodTypeAny | undefined,
+    location: 'query' | 'header' | 'cookie',
+    registry: SchemaRegistry
+): Parameter[] {
+    const parameters: Parameter[] = [];
+
+    if (schema instanceof ZodObject) {
         try {
-            const shape = getZodShape(querySchema);
+            const shape = getZodShape(schema);
             if (shape) {
-                for (const [queryName, queryZodSchema] of Object.entries(shape)) {
-                    const zodValue = queryZodSchema as ZodTypeAny;
+                for (const [name, fieldSchema] of Object.entries(shape)) {
+                    const zodValue = fieldSchema as ZodTypeAny;
                     parameters.push({
-                        name: queryName,
-                        in: 'query',
+                        name,
+                        in: location,
                         required: !(zodValue instanceof ZodOptional),
                         schema: registry.zodToOpenAPI(zodValue)
                     });
                 }
             }
         } catch (error) {
-            // If shape parsing fails, skip query parameters
+            // If shape parsing fails, skip these parameters
         }
     }
 
@@ -510,11 +538,32 @@ function createResponses(responses: Record<number, ZodTypeAny>, registry: Schema
     for (const [statusCode, responseSchema] of Object.entries(responses)) {
         const status = statusCode.toString();
 
-        // Handle void responses (like 204 No Content)
-        if (responseSchema instanceof ZodVoid) {
+        // Handle void responses (like 204 No Content) and redirects, which have no meaningful body
+        if (responseSchema instanceof ZodVoid || isNoBodyStatus(parseInt(status)) || isRedirectResponse(responseSchema)) {
             openApiResponses[status] = {
                 description: getResponseDescription(parseInt(status))
             };
+        } else if (getResponseBodyKind(responseSchema)) {
+            // FileResponse/TextResponse bodies are sent raw rather than as JSON
+            const isText = getResponseBodyKind(responseSchema) === 'text';
+            openApiResponses[status] = {
+                description: getResponseDescription(parseInt(status)),
+                content: {
+                    [isText ? 'text/plain' : 'application/octet-stream']: {
+                        schema: isText ? { type: 'string' } : { type: 'string', format: 'binary' }
+                    }
+                }
+            };
+        } else if (getResponseItemSchema(responseSchema)) {
+            // JsonLinesResponse bodies are NDJSON; the schema describes a single line
+            openApiResponses[status] = {
+                description: getResponseDescription(parseInt(status)),
+                content: {
+                    [JSON_LINES_CONTENT_TYPE]: {
+                        schema: registry.zodToOpenAPI(getResponseItemSchema(responseSchema)!, !anonymousTypes)
+                    }
+                }
+            };
         } else {
             openApiResponses[status] = {
                 description: getResponseDescription(parseInt(status)),
@@ -525,24 +574,101 @@ function createResponses(responses: Record<number, ZodTypeAny>, registry: Schema
                 }
             };
         }
+
+        const headers = createResponseHeaders(getResponseHeadersSchema(responseSchema), registry);
+        if (headers) {
+            openApiResponses[status].headers = headers;
+        }
     }
 
     return openApiResponses;
 }
 
+function createResponseHeaders(headersSchema: ZodTypeAny | undefined, registry: SchemaRegistry): Record<string, Header> | undefined {
+    if (!(headersSchema instanceof ZodObject)) {
+        return undefined;
+    }
+
+    const shape = getZodShape(headersSchema);
+    if (!shape || Object.keys(shape).length === 0) {
+        return undefined;
+    }
+
+    const headers: Record<string, Header> = {};
+    for (const [name, headerSchema] of Object.entries(shape)) {
+        const zodValue = headerSchema as ZodTypeAny;
+        headers[name] = {
+            required: !(zodValue instanceof ZodOptional),
+            schema: registry.zodToOpenAPI(zodValue)
+        };
+        if (zodValue.description) {
+            headers[name].description = zodValue.description;
+        }
+    }
+
+    return headers;
+}
+
 function getResponseDescription(statusCode: number): string {
     const descriptions: Record<number, string> = {
         200: 'OK',
         201: 'Created',
         202: 'Accepted',
+        203: 'Non-Authoritative Information',
         204: 'No Content',
+        205: 'Reset Content',
+        206: 'Partial Content',
+        207: 'Multi-Status',
+        208: 'Already Reported',
+        226: 'IM Used',
+        300: 'Multiple Choices',
+        301: 'Moved Permanently',
+        302: 'Found',
+        303: 'See Other',
+        304: 'Not Modified',
+        305: 'Use Proxy',
+        307: 'Temporary Redirect',
+        308: 'Permanent Redirect',
         400: 'Bad Request',
         401: 'Unauthorized',
+        402: 'Payment Required',
         403: 'Forbidden',
         404: 'Not Found',
+        405: 'Method Not Allowed',
+        406: 'Not Acceptable',
+        407: 'Proxy Authentication Required',
+        408: 'Request Timeout',
         409: 'Conflict',
+        410: 'Gone',
+        411: 'Length Required',
+        412: 'Precondition Failed',
+        413: 'Content Too Large',
+        414: 'URI Too Long',
+        415: 'Unsupported Media Type',
+        416: 'Range Not Satisfiable',
+        417: 'Expectation Failed',
+        418: "I'm a teapot",
+        421: 'Misdirected Request',
         422: 'Unprocessable Entity',
-        500: 'Internal Server Error'
+        423: 'Locked',
+        424: 'Failed Dependency',
+        425: 'Too Early',
+        426: 'Upgrade Required',
+        428: 'Precondition Required',
+        429: 'Too Many Requests',
+        431: 'Request Header Fields Too Large',
+        451: 'Unavailable For Legal Reasons',
+        500: 'Internal Server Error',
+        501: 'Not Implemented',
+        502: 'Bad Gateway',
+        503: 'Service Unavailable',
+        504: 'Gateway Timeout',
+        505: 'HTTP Version Not Supported',
+        506: 'Variant Also Negotiates',
+        507: 'Insufficient Storage',
+        508: 'Loop Detected',
+        510: 'Not Extended',
+        511: 'Network Authentication Required'
     };
 
     return descriptions[statusCode] || `HTTP ${statusCode}`;
@@ -555,8 +681,8 @@ function processRoute(
     domain: string,
     anonymousTypes: boolean = false
 ): Operation {
-    const pathParams = extractPathParameters(route.path);
-    const parameters = createParameters(pathParams, route.params, route.query, registry);
+    const pathParams = extractPathParams(route.path);
+    const parameters = createParameters(pathParams, route.params, route.query, registry, route.headers, route.cookies);
     const requestBody = createRequestBody(route.body, registry, anonymousTypes);
     const responses = createResponses(route.responses, registry, anonymousTypes);
 
@@ -1,4 +1,4 @@
-import { RouteSchema } from './definition';
+import { RouteSchema, getResponseHeadersSchema, getResponseBodyKind, getResponseItemSchema, JSON_LINES_CONTENT_TYPE, isRedirectResponse, isNoBodyStatus } from './definition';
 import { OpenAPIRegistry, OpenApiGeneratorV31, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 import { z, ZodTypeAny } from 'zod';
 
@@ -87,6 +87,12 @@ export function generateOpenApiSpec<TEndpoints extends Record<string, Record<str
                 if (route.query) {
                     parameters.push(...zodSchemaToOpenApiParameter(route.query, 'query'));
                 }
+                if (route.headers) {
+                    parameters.push(...zodSchemaToOpenApiParameter(route.headers, 'header'));
+                }
+                if (route.cookies) {
+                    parameters.push(...zodSchemaToOpenApiParameter(route.cookies, 'cookie'));
+                }
 
                 const requestBody = zodSchemaToOpenApiRequestBody(route.body);
 
@@ -94,14 +100,34 @@ export function generateOpenApiSpec<TEndpoints extends Record<string, Record<str
                 for (const statusCode in route.responses) {
                     const responseSchema = route.responses[parseInt(statusCode)];
                     if (responseSchema) {
+                        // Bodiless statuses (204, 205, 304) and redirects are documented without content
+                        const hasBody = !isNoBodyStatus(parseInt(statusCode)) && !isRedirectResponse(responseSchema);
+                        // FileResponse/TextResponse bodies are sent raw rather than as JSON
+                        const bodyKind = getResponseBodyKind(responseSchema);
+                        // JsonLinesResponse bodies are NDJSON; the schema describes a single line
+                        const itemSchema = getResponseItemSchema(responseSchema);
+                        const content = bodyKind ? {
+                            [bodyKind === 'text' ? 'text/plain' : 'application/octet-stream']: {
+                                schema: bodyKind === 'text' ? { type: 'string' } : { type: 'string', format: 'binary' },
+                            },
+                        } : itemSchema ? {
+                            [JSON_LINES_CONTENT_TYPE]: {
+                                schema: registerSchema(`ResponseItem_${statusCode}_${routeNameKey}_${domainNameKey}`, itemSchema),
+                            },
+                        } : {
+                            'application/json': {
+                                schema: registerSchema(`Response_${statusCode}_${routeNameKey}_${domainNameKey}`, responseSchema),
+                            },
+                        };
                         responses[statusCode] = {
                             description: `Response for status code ${statusCode}`,
-                            content: {
-                                'application/json': {
-                                    schema: registerSchema(`Response_${statusCode}_${routeNameKey}_${domainNameKey}`, responseSchema),
-                                },
-                            },
+                            content: hasBody ? content : undefined,
                         };
+
+                        const responseHeadersSchema = getResponseHeadersSchema(responseSchema);
+                        if (responseHeadersSchema instanceof z.ZodObject) {
+                            responses[statusCode].headers = responseHeadersSchema;
+                        }
                     }
                 }
 
@@ -1,11 +1,22 @@
 import express from "express";
+import { IncomingHttpHeaders } from "http";
+import { ZodTypeAny } from "zod";
 import {
     ApiDefinitionSchema, // Changed from ApiDefinition
     ApiBody,
     ApiParams,
     ApiQuery,
+    ApiHeaders,
+    ApiCookies,
     InferDataFromUnifiedResponse,
+    ResponseHeadersArgs,
+    ResponseBodyKind,
+    ResponseFileInput,
+    SseEventsSchema,
+    ApiSseEvents,
+    ApiStreamItem,
 } from './definition';
+import type { SSEOptions } from './core';
 
 // Define the file type based on Express.Multer namespace
 export type File = Express.Multer.File;
@@ -21,25 +32,34 @@ export type TypedRequest<
     Q extends ApiQuery<TDef, TDomain, TRouteKey> = ApiQuery<TDef, TDomain, TRouteKey>,
     L extends Record<string, any> = Record<string, any>,
     Ctx extends Record<string, any> = Record<string, any>
-> = express.Request<P, any, ReqBody, Q, L> & {
+> = Omit<express.Request<P, any, ReqBody, Q, L>, 'headers' | 'cookies'> & {
+    // Headers and cookies are typed from the route schema when one is declared
+    headers: TDef['endpoints'][TDomain][TRouteKey] extends { headers: ZodTypeAny }
+        ? ApiHeaders<TDef, TDomain, TRouteKey>
+        : IncomingHttpHeaders;
+    cookies: ApiCookies<TDef, TDomain, TRouteKey>;
     // Add file upload support
     file?: File;
     files?: File[] | { [fieldname: string]: File[] };
     // Add typed context object for carrying data between middlewares and handlers
     ctx?: Ctx;
-    // Unified client disconnection handler (Express only, undefined for Hono)
+    // Unified client disconnection handler (undefined when the server adapter cannot detect disconnects)
     onClose?: (callback: () => void) => void;
+    // Last-Event-ID header of a reconnecting SSE client, to resume the stream after that event
+    lastEventId?: string;
 }
 
 // --- Enhanced TypedResponse with res.respond, now generic over TDef ---
 
-// Type for the data argument of res.respond
+// Type for the data argument of res.respond (FileResponse/TextResponse statuses take the raw body instead)
 type ResponseDataForStatus<
     TDef extends ApiDefinitionSchema,
     TDomain extends keyof TDef['endpoints'],
     TRouteName extends keyof TDef['endpoints'][TDomain],
     TStatus extends keyof TDef['endpoints'][TDomain][TRouteName]['responses'] & number // Ensure TStatus is a numeric key
-> = InferDataFromUnifiedResponse<TDef['endpoints'][TDomain][TRouteName]['responses'][TStatus]>;
+> = TDef['endpoints'][TDomain][TRouteName]['responses'][TStatus] extends { bodyKind: ResponseBodyKind }
+    ? ResponseFileInput
+    : InferDataFromUnifiedResponse<TDef['endpoints'][TDomain][TRouteName]['responses'][TStatus]>;
 
 // Type for the res.respond method, now generic over TDef
 type RespondFunction<
@@ -50,9 +70,19 @@ type RespondFunction<
     TStatusLocal extends keyof TDef['endpoints'][TDomain][TRouteName]['responses'] & number
 >(
     status: TStatusLocal,
-    data: ResponseDataForStatus<TDef, TDomain, TRouteName, TStatusLocal>
+    data: ResponseDataForStatus<TDef, TDomain, TRouteName, TStatusLocal>,
+    ...headers: ResponseHeadersArgs<TDef['endpoints'][TDomain][TRouteName]['responses'][TStatusLocal]>
 ) => void;
 
+// Type for res.streamSSE: routes with an SSE contract only accept its events, with their data type
+type StreamSSEFunction<
+    TDef extends ApiDefinitionSchema,
+    TDomain extends keyof TDef['endpoints'],
+    TRouteName extends keyof TDef['endpoints'][TDomain]
+> = TDef['endpoints'][TDomain][TRouteName] extends { sse: SseEventsSchema }
+    ? <TEvent extends keyof ApiSseEvents<TDef, TDomain, TRouteName> & string>(eventName: TEvent, data: ApiSseEvents<TDef, TDomain, TRouteName>[TEvent], id?: string) => void
+    : (eventName?: string, data?: any, id?: string) => void;
+
 // Typed Response for Express handlers, now generic over TDef
 export interface TypedResponse<
     TDef extends ApiDefinitionSchema,
@@ -65,8 +95,12 @@ export interface TypedResponse<
     setHeader: (name: string, value: string) => this;
     json: <B = any>(body: B) => this; // Keep original json
     // SSE streaming methods
-    startSSE: () => void;
-    streamSSE: (eventName?: string, data?: any, id?: string) => void;
+    startSSE: (options?: SSEOptions) => void;
+    streamSSE: StreamSSEFunction<TDef, TDomain, TRouteName>;
+    // Resolves once the events sent so far have been handed to the connection (backpressure)
+    waitForSSEDrain: () => Promise<void>;
+    // Sends one NDJSON line of a JsonLinesResponse status, validated against its item schema
+    streamItem: (item: ApiStreamItem<TDef, TDomain, TRouteName>) => void;
     endStream: () => void;
 }
 
@@ -92,6 +126,15 @@ export function createRouteHandler<
     return { domain, routeKey, handler };
 }
 
+// A handler entry, generic over TDef
+export type SpecificRouteHandler<TDef extends ApiDefinitionSchema> = {
+    // Pick a domain from TDef
+    [TDomain_ in keyof TDef['endpoints']]: {
+        // Pick a route key from that domain
+        [TRouteKey_ in keyof TDef['endpoints'][TDomain_]]: ReturnType<typeof createRouteHandler<TDef, TDomain_, TRouteKey_>>;
+    }[keyof TDef['endpoints'][TDomain_]]; // Get the union of all possible handler objects for TDomain_
+}[keyof TDef['endpoints']]; // Get the union of all possible handler objects for TDef
+
 // Factory function to create a route handler creator for a specific API definition
 export function makeRouteHandlerCreator<TDef extends ApiDefinitionSchema>() {
     return function createHandler<
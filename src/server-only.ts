@@ -1,6 +1,13 @@
 // Server-only exports - includes server dependencies
 export { RegisterHandlers, EndpointMiddleware } from './object-handlers';
 export { File as UploadedFile } from './router';
+export { getSSEConnections, closeSSEConnections } from './handler';
+export { RegisterAdapterHandlers } from './core';
+export { createFetchHandler } from './fetch';
+export { createLambdaHandler } from './lambda';
+export { createTestClient, InMemoryHttpClientAdapter } from './test-client';
+export { createMockHandlers, generateMockData } from './mock';
+export { createChannels, InMemoryChannelBroker } from './channels';
 export {
     createRouteHandler,
     makeRouteHandlerCreator
@@ -15,3 +22,47 @@ export type {
 export type {
     ObjectHandlers
 } from './object-handlers';
+
+export type {
+    SSEConnection,
+    ExpressHandlerOptions
+} from './handler';
+
+export type {
+    ServerAdapter,
+    AdapterRoute,
+    NormalizedRequest,
+    NormalizedResponse,
+    PipelineNative,
+    PipelineResponse,
+    SSEOptions
+} from './core';
+
+export type {
+    FetchHandlerOptions,
+    FetchFile
+} from './fetch';
+
+export type {
+    LambdaHandler,
+    LambdaHandlerOptions,
+    ApiGatewayProxyEvent,
+    ApiGatewayProxyEventV1,
+    ApiGatewayProxyEventV2,
+    ApiGatewayProxyResultV1,
+    ApiGatewayProxyResultV2
+} from './lambda';
+
+export type {
+    Channels,
+    ChannelBroker,
+    ChannelMessage,
+    ChannelDefinitions,
+    ChannelEvents,
+    ChannelsOptions
+} from './channels';
+
+export type {
+    MockHandlersOptions,
+    MockHandlerOverrides
+} from './mock';
@@ -0,0 +1,75 @@
+import { ApiDefinitionSchema, ErrorHandler } from './definition';
+import { ObjectHandlers, AnyMiddleware } from './object-handlers';
+import { ApiClient, HttpClientAdapter, HttpRequestOptions, HttpResponse } from './client';
+import { buildFetchRequestHandler } from './fetch';
+
+// Base URL of the in-memory client; requests never leave the process, so the host is only cosmetic
+const TEST_CLIENT_BASE_URL = 'http://localhost';
+
+// Same limit as the Fetch API
+const MAX_REDIRECTS = 20;
+
+/**
+ * An HttpClientAdapter that dispatches requests directly to a Fetch API request handler
+ * in the same process, without opening a port.
+ */
+export class InMemoryHttpClientAdapter implements HttpClientAdapter {
+    constructor(private handleRequest: (request: Request) => Promise<Response>) { }
+
+    async request<T = any>(url: string, options: HttpRequestOptions): Promise<HttpResponse<T>> {
+        let method: string = options.method;
+        let body = options.body;
+        let response = await this.handleRequest(new Request(url, { method, headers: options.headers, body, signal: options.signal }));
+
+        // Follow redirects within the in-memory app the way fetch does, unless asked not to
+        for (let redirects = 0; options.redirect !== 'manual' && redirects < MAX_REDIRECTS; redirects++) {
+            const location = response.headers.get('location');
+            if (!location || response.status < 300 || response.status >= 400) break;
+
+            if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+                method = 'GET';
+                body = undefined;
+            }
+            url = new URL(location, url).toString();
+            response = await this.handleRequest(new Request(url, { method, headers: options.headers, body, signal: options.signal }));
+        }
+
+        return {
+            status: response.status,
+            headers: response.headers,
+            json: () => response.json() as Promise<T>,
+            text: () => response.text(),
+            arrayBuffer: () => response.arrayBuffer(),
+            blob: () => response.blob(),
+            stream: () => response.body,
+            getRawResponse: () => response,
+        };
+    }
+}
+
+/**
+ * Creates an ApiClient that calls the given handlers in-process, with no HTTP server.
+ * Requests still go through middlewares, validation and error handling, so handler
+ * tests get the same `callApi` typing and behaviour as against a real server.
+ *
+ * Requests are routed like createFetchHandler, not through Express: middlewares get `method`, `path`,
+ * `originalUrl`, `headers`, `cookies` (parsed from the Cookie header), `ip` (always 127.0.0.1) and `ctx`,
+ * but no Express request API such as `req.get`, and Express-only middleware (cookie-parser, multer, ...) does not run.
+ * @param apiDefinition The API definition object.
+ * @param objectHandlers The handlers to serve, as passed to RegisterHandlers.
+ * @param middlewares Optional middlewares, as passed to RegisterHandlers.
+ * @param errorHandler Optional custom error handler, as passed to RegisterHandlers.
+ */
+export function createTestClient<
+    TDef extends ApiDefinitionSchema,
+    Ctx extends Record<string, any> = Record<string, any>
+>(
+    apiDefinition: TDef,
+    objectHandlers: ObjectHandlers<TDef, Ctx>,
+    middlewares?: AnyMiddleware<TDef>[],
+    errorHandler?: ErrorHandler
+): ApiClient<TDef> {
+    const handleRequest = buildFetchRequestHandler(apiDefinition, objectHandlers, { middlewares, errorHandler });
+    const adapter = new InMemoryHttpClientAdapter(request => handleRequest(request, '127.0.0.1'));
+    return new ApiClient(TEST_CLIENT_BASE_URL, apiDefinition, adapter);
+}
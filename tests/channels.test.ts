@@ -0,0 +1,128 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { createTestClient, createChannels, CreateApiDefinition, CreateResponses, InMemoryChannelBroker, ChannelBroker, ChannelMessage } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const dashboardEvents = {
+    order: z.object({ id: z.string(), total: z.number() }),
+    alert: z.object({ level: z.enum(['info', 'critical']) })
+};
+
+const ChannelsApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        dashboard: {
+            live: {
+                method: 'GET',
+                path: '/dashboard/live',
+                sse: dashboardEvents,
+                responses: CreateResponses({ 200: z.string() })
+            }
+        }
+    }
+});
+
+function setup(broker: ChannelBroker = new InMemoryChannelBroker()) {
+    const channels = createChannels({ dashboard: dashboardEvents }, { broker });
+    const handlers: ObjectHandlers<typeof ChannelsApiDefinition> = {
+        dashboard: {
+            live: async (req, res) => {
+                channels.subscribe('dashboard', req, res);
+            }
+        }
+    };
+    return { channels, client: createTestClient(ChannelsApiDefinition, handlers) };
+}
+
+// Opens a subscription and resolves once the handler has subscribed to the channel
+async function openDashboard(client: ReturnType<typeof setup>['client']) {
+    const received: Array<{ event: string; data: unknown }> = [];
+    let opened: () => void = () => undefined;
+    const open = new Promise<void>(resolve => { opened = resolve; });
+
+    const subscription = client.subscribe('dashboard', 'live', { reconnect: false }, {
+        onOpen: () => opened(),
+        onMessage: message => { received.push({ event: message.event, data: message.data }); }
+    });
+    await open;
+    return { subscription, received };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('SSE channels', () => {
+    test('should fan published events out to every subscriber', async () => {
+        const broker = new InMemoryChannelBroker();
+        const { channels, client } = setup(broker);
+        const first = await openDashboard(client);
+        const second = await openDashboard(client);
+        expect(broker.listenerCount('dashboard')).toBe(2);
+
+        await channels.publish('dashboard', 'order', { id: 'A-1', total: 42 }, '1');
+        await channels.publish('dashboard', 'alert', { level: 'critical' });
+        await flush();
+
+        const expected = [
+            { event: 'order', data: { id: 'A-1', total: 42 } },
+            { event: 'alert', data: { level: 'critical' } }
+        ];
+        expect(first.received).toEqual(expected);
+        expect(second.received).toEqual(expected);
+        expect(first.subscription.lastEventId).toBe('1');
+
+        first.subscription.close();
+        second.subscription.close();
+    });
+
+    test('should reject events that break the channel contract', async () => {
+        const { channels, client } = setup();
+        const { subscription, received } = await openDashboard(client);
+
+        // @ts-expect-error - total must be a number
+        await expect(channels.publish('dashboard', 'order', { id: 'A-2', total: 'lots' })).rejects.toThrow('Event "order" failed validation for channel "dashboard"');
+        // @ts-expect-error - 'refund' is not declared for the channel
+        await expect(channels.publish('dashboard', 'refund', {})).rejects.toThrow('Event "refund" is not declared for channel "dashboard"');
+        // @ts-expect-error - 'billing' is not a declared channel
+        await expect(channels.publish('billing', 'order', {})).rejects.toThrow('Channel "billing" is not declared');
+        await flush();
+
+        expect(received).toEqual([]);
+        subscription.close();
+    });
+
+    test('should unsubscribe clients when they disconnect', async () => {
+        const broker = new InMemoryChannelBroker();
+        const { client } = setup(broker);
+        const { subscription } = await openDashboard(client);
+        expect(broker.listenerCount('dashboard')).toBe(1);
+
+        subscription.close();
+        await flush();
+
+        expect(broker.listenerCount('dashboard')).toBe(0);
+    });
+
+    test('should deliver events through a custom broker shared by several instances', async () => {
+        // Stands in for Redis or NATS: messages are serialized, like they would be on the wire
+        const bus = new InMemoryChannelBroker();
+        const published: ChannelMessage[] = [];
+        const sharedBroker = (): ChannelBroker => ({
+            publish(channel, message) {
+                published.push(message);
+                bus.publish(channel, JSON.parse(JSON.stringify(message)));
+            },
+            subscribe: (channel, listener) => bus.subscribe(channel, listener)
+        });
+
+        const instanceA = setup(sharedBroker());
+        const instanceB = setup(sharedBroker());
+        const { subscription, received } = await openDashboard(instanceB.client);
+
+        await instanceA.channels.publish('dashboard', 'order', { id: 'B-7', total: 7.5 });
+        await flush();
+
+        expect(published).toEqual([{ event: 'order', data: { id: 'B-7', total: 7.5 }, id: undefined }]);
+        expect(received).toEqual([{ event: 'order', data: { id: 'B-7', total: 7.5 } }]);
+        subscription.close();
+    });
+});
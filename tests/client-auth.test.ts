@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { ApiClient, createTestClient, CreateApiDefinition, CreateResponses } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const AuthApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        account: {
+            me: {
+                method: 'GET',
+                path: '/me',
+                responses: CreateResponses({
+                    200: z.object({ token: z.string() }),
+                    401: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+// The server only accepts the latest issued token
+let validToken = 'token-1';
+let meCalls = 0;
+
+const authHandlers: ObjectHandlers<typeof AuthApiDefinition> = {
+    account: {
+        me: async (req, res) => {
+            meCalls++;
+            if (req.headers['authorization'] !== `Bearer ${validToken}`) {
+                return res.respond(401, { error: 'Token expired' });
+            }
+            res.respond(200, { token: validToken });
+        }
+    }
+};
+
+const getMe = (client: ApiClient<typeof AuthApiDefinition>) =>
+    client.callApi('account', 'me', {}, {
+        200: ({ data }) => data.token,
+        401: ({ data }) => data.error,
+        422: () => 'invalid'
+    });
+
+describe('Client token authentication', () => {
+    beforeEach(() => {
+        validToken = 'token-1';
+        meCalls = 0;
+    });
+
+    test('should send the token from the provider', async () => {
+        const client = createTestClient(AuthApiDefinition, authHandlers);
+        client.useTokenAuth({
+            getToken: async () => 'token-1',
+            refresh: async () => { throw new Error('Refresh should not be needed'); }
+        });
+
+        expect(await getMe(client)).toBe('token-1');
+        expect(meCalls).toBe(1);
+    });
+
+    test('should refresh once for concurrent 401s and retry each call', async () => {
+        const client = createTestClient(AuthApiDefinition, authHandlers);
+        let currentToken = 'token-1';
+        let refreshes = 0;
+        client.useTokenAuth({
+            getToken: () => currentToken,
+            refresh: async () => {
+                refreshes++;
+                await new Promise(resolve => setTimeout(resolve, 10));
+                currentToken = 'token-2';
+            }
+        });
+
+        validToken = 'token-2';
+        const results = await Promise.all([getMe(client), getMe(client), getMe(client)]);
+
+        expect(results).toEqual(['token-2', 'token-2', 'token-2']);
+        expect(refreshes).toBe(1);
+    });
+
+    test('should retry only once and call onRefreshFailed when the refresh fails', async () => {
+        const client = createTestClient(AuthApiDefinition, authHandlers);
+        const failures: unknown[] = [];
+        client.useTokenAuth({
+            getToken: () => 'stale',
+            refresh: async () => { throw new Error('Refresh token revoked'); },
+            onRefreshFailed: (error) => { failures.push(error); }
+        });
+
+        expect(await getMe(client)).toBe('Token expired');
+        expect(meCalls).toBe(1);
+        expect((failures[0] as Error).message).toBe('Refresh token revoked');
+    });
+
+    test('should call onRefreshFailed once for concurrent calls waiting on a failed refresh', async () => {
+        const client = createTestClient(AuthApiDefinition, authHandlers);
+        let refreshes = 0;
+        let failures = 0;
+        client.useTokenAuth({
+            getToken: () => 'stale',
+            refresh: async () => {
+                refreshes++;
+                await new Promise(resolve => setTimeout(resolve, 10));
+                throw new Error('Refresh token revoked');
+            },
+            onRefreshFailed: () => { failures++; }
+        });
+
+        const results = await Promise.all([getMe(client), getMe(client), getMe(client)]);
+
+        expect(results).toEqual(['Token expired', 'Token expired', 'Token expired']);
+        expect(refreshes).toBe(1);
+        expect(failures).toBe(1);
+    });
+
+    test('should return the second 401 when the refreshed token is rejected too', async () => {
+        const client = createTestClient(AuthApiDefinition, authHandlers);
+        let currentToken = 'token-0';
+        client.useTokenAuth({
+            getToken: () => currentToken,
+            refresh: async () => { currentToken = 'token-still-wrong'; }
+        });
+
+        expect(await getMe(client)).toBe('Token expired');
+        expect(meCalls).toBe(2);
+    });
+
+    test('should support a custom header without a scheme and removal', async () => {
+        const client = createTestClient(AuthApiDefinition, authHandlers);
+        const seen: (string | undefined)[] = [];
+        const removeAuth = client.useTokenAuth({ getToken: () => 'abc', refresh: async () => undefined, header: 'X-Api-Key', scheme: '' });
+        client.addInterceptor({
+            onRequest: (context) => { seen.push(context.options.headers?.['X-Api-Key']); }
+        });
+
+        await getMe(client);
+        removeAuth();
+        await getMe(client);
+
+        // The endpoint only reads Authorization, so the first call is retried once after the refresh
+        expect(seen).toEqual(['abc', 'abc', undefined]);
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { AbortError, ApiClient, createTestClient, CreateApiDefinition, CreateResponses, TimeoutError } from '../src';
+import { HttpClientAdapter, HttpRequestOptions } from '../src/client';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const CancellationApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        search: {
+            query: {
+                method: 'GET',
+                path: '/search',
+                query: z.object({ q: z.string(), delay: z.coerce.number().optional() }),
+                responses: CreateResponses({
+                    200: z.object({ q: z.string() }),
+                    503: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+const cancellationHandlers: ObjectHandlers<typeof CancellationApiDefinition> = {
+    search: {
+        query: async (req, res) => {
+            await new Promise(resolve => setTimeout(resolve, req.query.delay ?? 0));
+            res.respond(200, { q: req.query.q });
+        }
+    }
+};
+
+const search = (client: ApiClient<typeof CancellationApiDefinition>, q: string, delay: number, options: object = {}) =>
+    client.callApiResult('search', 'query', { query: { q, delay }, ...options });
+
+describe('Client timeouts and cancellation', () => {
+    test('should fail with a TimeoutError after the per-call timeout', async () => {
+        const client = createTestClient(CancellationApiDefinition, cancellationHandlers);
+
+        const error = await search(client, 'slow', 200, { timeoutMs: 20 }).catch(e => e);
+
+        expect(error).toBeInstanceOf(TimeoutError);
+        expect(error.timeoutMs).toBe(20);
+        expect(error.message).toBe('API search.query timed out after 20ms');
+        expect((await search(client, 'fast', 0, { timeoutMs: 1000 })).status).toBe(200);
+    });
+
+    test('should apply the client default timeout unless the call overrides it', async () => {
+        const client = createTestClient(CancellationApiDefinition, cancellationHandlers);
+        client.setDefaultTimeout(20);
+
+        await expect(search(client, 'slow', 100)).rejects.toBeInstanceOf(TimeoutError);
+        expect((await search(client, 'slow', 100, { timeoutMs: 1000 })).status).toBe(200);
+    });
+
+    test('should propagate the signal to the adapter and fail with an AbortError', async () => {
+        let adapterSignal: AbortSignal | undefined;
+        // An adapter that never answers and ignores the signal
+        const hangingAdapter: HttpClientAdapter = {
+            request: (url: string, options: HttpRequestOptions) => {
+                adapterSignal = options.signal;
+                return new Promise(() => undefined);
+            }
+        };
+        const client = new ApiClient('http://localhost', CancellationApiDefinition, hangingAdapter);
+        const controller = new AbortController();
+
+        const pending = search(client, 'hang', 0, { signal: controller.signal });
+        controller.abort('user navigated away');
+        const error = await pending.catch(e => e);
+
+        expect(error).toBeInstanceOf(AbortError);
+        expect(error.reason).toBe('user navigated away');
+        expect(adapterSignal?.aborted).toBe(true);
+        await expect(search(client, 'again', 0, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    });
+
+    test('should abort superseded takeLatest calls to the same route', async () => {
+        const client = createTestClient(CancellationApiDefinition, cancellationHandlers);
+
+        const first = search(client, 'a', 50, { takeLatest: true }).catch(e => e);
+        const second = search(client, 'ab', 50, { takeLatest: true }).catch(e => e);
+        const unrelated = search(client, 'other', 50);
+        const latest = search(client, 'abc', 50, { takeLatest: true });
+
+        expect(await first).toBeInstanceOf(AbortError);
+        expect((await second).reason).toBe('superseded');
+        expect(await unrelated).toMatchObject({ status: 200, data: { q: 'other' } });
+        expect(await latest).toMatchObject({ status: 200, data: { q: 'abc' } });
+    });
+
+    test('should stop retrying once the call times out', async () => {
+        let attempts = 0;
+        const unavailableAdapter: HttpClientAdapter = {
+            request: async () => {
+                attempts++;
+                throw new Error('Connection refused');
+            }
+        };
+        const client = new ApiClient('http://localhost', CancellationApiDefinition, unavailableAdapter);
+        client.setRetryPolicy({ attempts: 10, baseDelayMs: 1000, jitter: false });
+
+        await expect(search(client, 'x', 0, { timeoutMs: 50 })).rejects.toBeInstanceOf(TimeoutError);
+        expect(attempts).toBe(1);
+    });
+});
@@ -0,0 +1,168 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { z } from 'zod';
+import { ApiClient, createTestClient, createMockHandlers, CreateApiDefinition, CreateResponses, RegisterHandlers, FileResponse, TextResponse, saveResponseFile } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { generateOpenApiSpec } from '../src/openapi-self';
+
+const DownloadsApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        reports: {
+            pdf: {
+                method: 'GET',
+                path: '/reports/:id/pdf',
+                params: z.object({ id: z.string() }),
+                responses: CreateResponses({
+                    200: FileResponse(),
+                    404: z.object({ error: z.string() })
+                })
+            },
+            bytes: {
+                method: 'GET',
+                path: '/reports/bytes',
+                responses: CreateResponses({
+                    200: FileResponse('arrayBuffer')
+                })
+            },
+            stream: {
+                method: 'GET',
+                path: '/reports/stream',
+                responses: CreateResponses({
+                    200: FileResponse('stream')
+                })
+            },
+            csv: {
+                method: 'GET',
+                path: '/reports/csv',
+                responses: CreateResponses({
+                    200: TextResponse()
+                })
+            }
+        }
+    }
+});
+
+// Bytes that would be mangled by any text decoding on the way
+const PDF_BYTES = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0xfe, 0x80, 0x0a]);
+
+const downloadsHandlers: ObjectHandlers<typeof DownloadsApiDefinition> = {
+    reports: {
+        pdf: async (req, res) => {
+            if (req.params.id !== 'q3') {
+                res.respond(404, { error: 'Report not found' });
+                return;
+            }
+            res.respond(200, { body: PDF_BYTES, contentType: 'application/pdf', filename: 'Bericht Q3 – Übersicht.pdf' });
+        },
+        bytes: async (req, res) => {
+            res.respond(200, { body: PDF_BYTES.buffer });
+        },
+        stream: async (req, res) => {
+            res.respond(200, { body: PDF_BYTES, filename: 'report.bin' });
+        },
+        csv: async (req, res) => {
+            res.respond(200, { body: 'name;city\nZoë;Łódź\n', contentType: 'text/csv; charset=utf-8', filename: 'people.csv' }, { 'Cache-Control': 'no-store', ETag: '"v1"' });
+        }
+    }
+};
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const DOWNLOADS_EXPRESS_PORT = 3017;
+
+describe('Client downloads', () => {
+    let server: Server;
+
+    beforeAll(async () => {
+        const app = express();
+        RegisterHandlers(app, DownloadsApiDefinition, downloadsHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(DOWNLOADS_EXPRESS_PORT, () => resolve());
+        });
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test.each([
+        ['the in-memory test client', () => createTestClient(DownloadsApiDefinition, downloadsHandlers)],
+        ['Express', () => new ApiClient(`http://localhost:${DOWNLOADS_EXPRESS_PORT}`, DownloadsApiDefinition)]
+    ])('should return binary files intact with their name and type from %s', async (_name, createClient) => {
+        const client = createClient();
+
+        const result = await client.callApiResult('reports', 'pdf', { params: { id: 'q3' } });
+
+        expect(result.status).toBe(200);
+        if (result.status === 200) {
+            expect(result.data.body).toBeInstanceOf(Blob);
+            expect(new Uint8Array(await result.data.body.arrayBuffer())).toEqual(PDF_BYTES);
+            expect(result.data.contentType).toBe('application/pdf');
+            expect(result.data.filename).toBe('Bericht Q3 – Übersicht.pdf');
+        }
+
+        const missing = await client.callApiResult('reports', 'pdf', { params: { id: 'q4' } });
+        expect(missing).toMatchObject({ status: 404, data: { error: 'Report not found' } });
+    });
+
+    test('should read bodies as the declared kind', async () => {
+        const client = createTestClient(DownloadsApiDefinition, downloadsHandlers);
+
+        const bytes = await client.callApiResult('reports', 'bytes');
+        expect(bytes.status).toBe(200);
+        if (bytes.status === 200) {
+            expect(bytes.data.body).toBeInstanceOf(ArrayBuffer);
+            expect(new Uint8Array(bytes.data.body)).toEqual(PDF_BYTES);
+            expect(bytes.data.contentType).toBe('application/octet-stream');
+            expect(bytes.data.filename).toBeUndefined();
+        }
+
+        const stream = await client.callApiResult('reports', 'stream');
+        expect(stream.status).toBe(200);
+        if (stream.status === 200) {
+            expect(await readStream(stream.data.body)).toEqual(PDF_BYTES);
+            expect(stream.data.filename).toBe('report.bin');
+        }
+
+        const csv = await client.callApiResult('reports', 'csv');
+        expect(csv.data).toEqual({ body: 'name;city\nZoë;Łódź\n', contentType: 'text/csv; charset=utf-8', filename: 'people.csv' });
+    });
+
+    test('should send response headers passed with a download', async () => {
+        const response = await fetch(`http://localhost:${DOWNLOADS_EXPRESS_PORT}/api/reports/csv`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('cache-control')).toBe('no-store');
+        expect(response.headers.get('etag')).toBe('"v1"');
+        expect(response.headers.get('content-disposition')).toContain('people.csv');
+        expect(await response.text()).toBe('name;city\nZoë;Łódź\n');
+    });
+
+    test('should serve empty files from mock handlers and document file statuses in OpenAPI', async () => {
+        const client = createTestClient(DownloadsApiDefinition, createMockHandlers(DownloadsApiDefinition));
+        const csv = await client.callApiResult('reports', 'csv');
+        expect(csv).toMatchObject({ status: 200, data: { body: '' } });
+
+        const spec = generateOpenApiSpec(DownloadsApiDefinition);
+        expect(spec.paths['/api/reports/{id}/pdf'].get?.responses['200'].content).toEqual({
+            'application/octet-stream': { schema: { type: 'string', format: 'binary' } }
+        });
+        expect(spec.paths['/api/reports/csv'].get?.responses['200'].content).toEqual({
+            'text/plain': { schema: { type: 'string' } }
+        });
+    });
+
+    test('should refuse to save files outside a browser', async () => {
+        const client = createTestClient(DownloadsApiDefinition, downloadsHandlers);
+        const csv = await client.callApiResult('reports', 'csv');
+        if (csv.status !== 200) throw new Error(`Unexpected status ${csv.status}`);
+
+        await expect(saveResponseFile(csv.data)).rejects.toThrow('saveResponseFile needs a browser document');
+    });
+});
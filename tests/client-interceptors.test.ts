@@ -0,0 +1,140 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { ApiClient, createTestClient, CreateApiDefinition, CreateResponses } from '../src';
+import { HttpClientAdapter, HttpResponse } from '../src/client';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const InterceptorApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        profile: {
+            get: {
+                method: 'GET',
+                path: '/profile',
+                responses: CreateResponses({
+                    200: z.object({ user: z.string() }),
+                    401: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+let profileCalls = 0;
+
+const interceptorHandlers: ObjectHandlers<typeof InterceptorApiDefinition> = {
+    profile: {
+        get: async (req, res) => {
+            profileCalls++;
+            const token = req.headers['authorization'];
+            if (!token) {
+                return res.respond(401, { error: 'Unauthorized' });
+            }
+            res.respond(200, { user: String(token).replace('Bearer ', '') });
+        }
+    }
+};
+
+// Builds an HttpResponse the way an adapter would
+function jsonResponse(status: number, body: unknown): HttpResponse {
+    const response = new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    return {
+        status,
+        headers: response.headers,
+        json: () => response.json(),
+        text: () => response.text(),
+        getRawResponse: () => response
+    };
+}
+
+const getProfile = (client: ApiClient<typeof InterceptorApiDefinition>) =>
+    client.callApi('profile', 'get', {}, {
+        200: ({ data }) => data.user,
+        401: ({ data }) => data.error,
+        422: () => 'invalid'
+    });
+
+describe('Client interceptors', () => {
+    test('should let onRequest modify the request asynchronously', async () => {
+        const client = createTestClient(InterceptorApiDefinition, interceptorHandlers);
+        client.addInterceptor({
+            onRequest: async (context) => {
+                expect(context.domain).toBe('profile');
+                expect(context.routeKey).toBe('get');
+                expect(context.url).toBe('http://localhost/api/profile');
+                context.options.headers = { ...context.options.headers, Authorization: 'Bearer ada' };
+            }
+        });
+
+        expect(await getProfile(client)).toBe('ada');
+    });
+
+    test('should run interceptors as an onion and allow removing them', async () => {
+        const client = createTestClient(InterceptorApiDefinition, interceptorHandlers);
+        const calls: string[] = [];
+        const removeOuter = client.addInterceptor({
+            onRequest: () => { calls.push('outer:request'); },
+            onResponse: (response) => { calls.push(`outer:response:${response.status}`); }
+        });
+        client.addInterceptor({
+            onRequest: () => { calls.push('inner:request'); },
+            onResponse: (response) => { calls.push(`inner:response:${response.status}`); }
+        });
+
+        await getProfile(client);
+        expect(calls).toEqual(['outer:request', 'inner:request', 'inner:response:401', 'outer:response:401']);
+
+        calls.length = 0;
+        removeOuter();
+        await getProfile(client);
+        expect(calls).toEqual(['inner:request', 'inner:response:401']);
+    });
+
+    test('should short-circuit with a synthetic response', async () => {
+        const client = createTestClient(InterceptorApiDefinition, interceptorHandlers);
+        client.setHeader('Authorization', 'Bearer ada');
+        const cache = new Map<string, unknown>();
+        client.addInterceptor({
+            onRequest: (context) => cache.has(context.url) ? jsonResponse(200, cache.get(context.url)) : undefined,
+            onResponse: async (response, context) => {
+                const body = await response.json();
+                cache.set(context.url, body);
+                return jsonResponse(response.status, body);
+            }
+        });
+
+        const callsBefore = profileCalls;
+        expect(await getProfile(client)).toBe('ada');
+        expect(await getProfile(client)).toBe('ada');
+        expect(profileCalls).toBe(callsBefore + 1);
+    });
+
+    test('should recover from adapter errors in onError', async () => {
+        const failingAdapter: HttpClientAdapter = {
+            request: async () => { throw new Error('Connection refused'); }
+        };
+        const client = new ApiClient('http://localhost', InterceptorApiDefinition, failingAdapter);
+
+        await expect(getProfile(client)).rejects.toThrow('Network error: Connection refused');
+
+        const errors: unknown[] = [];
+        client.addInterceptor({
+            onError: (error) => {
+                errors.push(error);
+                return jsonResponse(200, { data: { user: 'offline' } });
+            }
+        });
+
+        expect(await getProfile(client)).toBe('offline');
+        expect((errors[0] as Error).message).toBe('Connection refused');
+    });
+
+    test('should pass errors thrown by interceptors through unchanged', async () => {
+        const client = createTestClient(InterceptorApiDefinition, interceptorHandlers);
+        client.addInterceptor({
+            onRequest: () => { throw new Error('Not signed in'); }
+        });
+
+        await expect(getProfile(client)).rejects.toThrow(/^Not signed in$/);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { ApiClient, CreateApiDefinition, CreateResponses, ResponseValidationError } from '../src';
+import { HttpClientAdapter, HttpResponse } from '../src/client';
+
+const ResponseValidationApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        events: {
+            get: {
+                method: 'GET',
+                path: '/events/:id',
+                params: z.object({ id: z.number() }),
+                responses: CreateResponses({
+                    200: z.object({
+                        title: z.string(),
+                        startsAt: z.iso.datetime().transform(value => new Date(value))
+                    }),
+                    404: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+// A backend stand-in that answers every request with the given status and body
+function cannedAdapter(status: number, body: unknown): HttpClientAdapter {
+    return {
+        request: async () => {
+            const response = new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+            return {
+                status,
+                headers: response.headers,
+                json: () => response.json(),
+                text: () => response.text(),
+                getRawResponse: () => response
+            } as HttpResponse;
+        }
+    };
+}
+
+const getEvent = (client: ApiClient<typeof ResponseValidationApiDefinition>, validateResponse?: boolean) =>
+    client.callApiResult('events', 'get', { params: { id: 1 }, validateResponse });
+
+describe('Client response validation', () => {
+    test('should leave responses untouched unless enabled', async () => {
+        const client = new ApiClient('http://localhost', ResponseValidationApiDefinition, cannedAdapter(200, { data: { title: 'Launch' } }));
+
+        const result = await getEvent(client);
+
+        expect(result).toMatchObject({ status: 200, data: { title: 'Launch' } });
+    });
+
+    test('should apply schema transforms to valid responses', async () => {
+        const client = new ApiClient('http://localhost', ResponseValidationApiDefinition, cannedAdapter(200, { data: { title: 'Launch', startsAt: '2030-01-02T03:04:05Z' } }));
+        client.setResponseValidation(true);
+
+        const result = await getEvent(client);
+
+        expect(result.status).toBe(200);
+        if (result.status === 200) {
+            expect(result.data.startsAt).toBeInstanceOf(Date);
+            expect(result.data.startsAt.toISOString()).toBe('2030-01-02T03:04:05.000Z');
+        }
+    });
+
+    test('should reject contract violations with a ResponseValidationError', async () => {
+        const client = new ApiClient('http://localhost', ResponseValidationApiDefinition, cannedAdapter(404, { data: { message: 'gone' } }));
+
+        const error = await getEvent(client, true).catch(e => e);
+
+        expect(error).toBeInstanceOf(ResponseValidationError);
+        expect(error.status).toBe(404);
+        expect(error.data).toEqual({ message: 'gone' });
+        expect(error.issues.length).toBeGreaterThan(0);
+        expect(error.message).toContain('API events.get: response for status 404 does not match its schema');
+    });
+
+    test('should report violations to the hook and resolve with the unvalidated data', async () => {
+        const client = new ApiClient('http://localhost', ResponseValidationApiDefinition, cannedAdapter(200, { data: { title: 42 } }));
+        const reported: ResponseValidationError[] = [];
+        client.setResponseValidation(true, error => { reported.push(error); });
+
+        const result = await getEvent(client);
+
+        expect(result).toMatchObject({ status: 200, data: { title: 42 } });
+        expect(reported).toHaveLength(1);
+        expect(reported[0].issues.map(issue => issue.path.join('.'))).toEqual(['data.title', 'data.startsAt']);
+    });
+});
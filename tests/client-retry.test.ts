@@ -0,0 +1,170 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { ApiClient, createTestClient, CreateApiDefinition, CreateResponses } from '../src';
+import { HttpClientAdapter, HttpResponse } from '../src/client';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const RetryApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        jobs: {
+            status: {
+                method: 'GET',
+                path: '/jobs/status',
+                responses: CreateResponses({
+                    200: z.object({ state: z.string() }),
+                    503: z.object({ error: z.string() })
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/jobs',
+                responses: CreateResponses({
+                    201: z.object({ id: z.number() }),
+                    503: z.object({ error: z.string() })
+                })
+            },
+            enqueue: {
+                method: 'POST',
+                path: '/jobs/enqueue',
+                idempotent: true,
+                responses: CreateResponses({
+                    202: z.object({ queued: z.boolean() }),
+                    503: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+// Every route answers 503 until it has failed `failuresLeft` times
+let failuresLeft = 0;
+let calls = 0;
+let retryAfter: string | undefined;
+
+const failFirst = (res: any) => {
+    calls++;
+    if (failuresLeft > 0) {
+        failuresLeft--;
+        if (retryAfter) res.setHeader('Retry-After', retryAfter);
+        res.respond(503, { error: 'Service unavailable' });
+        return true;
+    }
+    return false;
+};
+
+const retryHandlers: ObjectHandlers<typeof RetryApiDefinition> = {
+    jobs: {
+        status: async (req, res) => {
+            if (!failFirst(res)) res.respond(200, { state: 'done' });
+        },
+        create: async (req, res) => {
+            if (!failFirst(res)) res.respond(201, { id: 1 });
+        },
+        enqueue: async (req, res) => {
+            if (!failFirst(res)) res.respond(202, { queued: true });
+        }
+    }
+};
+
+const fastRetries = { attempts: 3, baseDelayMs: 1 };
+
+describe('Client retries', () => {
+    beforeEach(() => {
+        failuresLeft = 0;
+        calls = 0;
+        retryAfter = undefined;
+    });
+
+    test('should not retry without a retry policy', async () => {
+        const client = createTestClient(RetryApiDefinition, retryHandlers);
+        failuresLeft = 1;
+
+        const result = await client.callApiResult('jobs', 'status');
+
+        expect(result.status).toBe(503);
+        expect(calls).toBe(1);
+    });
+
+    test('should retry idempotent calls on retryable statuses up to the attempt limit', async () => {
+        const client = createTestClient(RetryApiDefinition, retryHandlers);
+        client.setRetryPolicy(fastRetries);
+
+        failuresLeft = 2;
+        expect((await client.callApiResult('jobs', 'status')).status).toBe(200);
+        expect(calls).toBe(3);
+
+        calls = 0;
+        failuresLeft = 5;
+        expect((await client.callApiResult('jobs', 'status')).status).toBe(503);
+        expect(calls).toBe(3);
+    });
+
+    test('should only retry non-idempotent methods when the route opts in', async () => {
+        const client = createTestClient(RetryApiDefinition, retryHandlers);
+        client.setRetryPolicy(fastRetries);
+
+        failuresLeft = 1;
+        expect((await client.callApiResult('jobs', 'create')).status).toBe(503);
+        expect(calls).toBe(1);
+
+        calls = 0;
+        failuresLeft = 1;
+        expect((await client.callApiResult('jobs', 'enqueue')).status).toBe(202);
+        expect(calls).toBe(2);
+    });
+
+    test('should merge per-call options and allow disabling retries per call', async () => {
+        const client = createTestClient(RetryApiDefinition, retryHandlers);
+        client.setRetryPolicy(fastRetries);
+
+        failuresLeft = 1;
+        expect((await client.callApiResult('jobs', 'status', { retry: false })).status).toBe(503);
+        expect(calls).toBe(1);
+
+        calls = 0;
+        failuresLeft = 1;
+        expect((await client.callApiResult('jobs', 'status', { retry: { statuses: [429] } })).status).toBe(503);
+        expect(calls).toBe(1);
+    });
+
+    test('should honour the Retry-After header over the backoff', async () => {
+        const client = createTestClient(RetryApiDefinition, retryHandlers);
+        // Without Retry-After the backoff would exceed the test timeout
+        client.setRetryPolicy({ attempts: 2, baseDelayMs: 60_000, jitter: false });
+        retryAfter = '0';
+        failuresLeft = 1;
+
+        const result = await client.callApiResult('jobs', 'status');
+
+        expect(result.status).toBe(200);
+        expect(calls).toBe(2);
+    });
+
+    test('should retry network errors and report the last one', async () => {
+        let attempts = 0;
+        const flakyAdapter: HttpClientAdapter = {
+            request: async () => {
+                attempts++;
+                if (attempts < 3) throw new Error('socket hang up');
+                const response = new Response(JSON.stringify({ data: { state: 'done' } }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+                return {
+                    status: response.status,
+                    headers: response.headers,
+                    json: () => response.json(),
+                    text: () => response.text(),
+                    getRawResponse: () => response
+                } as HttpResponse;
+            }
+        };
+        const client = new ApiClient('http://localhost', RetryApiDefinition, flakyAdapter);
+        client.setRetryPolicy(fastRetries);
+
+        expect((await client.callApiResult('jobs', 'status')).status).toBe(200);
+        expect(attempts).toBe(3);
+
+        attempts = -10;
+        await expect(client.callApiResult('jobs', 'status')).rejects.toThrow('Network error: socket hang up');
+        expect(attempts).toBe(-7);
+    });
+});
@@ -0,0 +1,181 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { z } from 'zod';
+import { ApiCallError, ApiClient, createTestClient, CreateApiDefinition, CreateResponses, SseMessage } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { PublicApiDefinition } from '../examples/simple/definitions';
+import { SIMPLE_PORT } from './setup';
+
+const SseApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        dashboard: {
+            live: {
+                method: 'GET',
+                path: '/dashboard/live',
+                query: z.object({ count: z.coerce.number().optional() }),
+                headers: z.object({ 'authorization': z.string().optional(), 'last-event-id': z.string().optional() }),
+                sse: {
+                    tick: z.object({ sequence: z.number(), at: z.iso.datetime() }),
+                    status: z.object({ state: z.enum(['ok', 'degraded']) })
+                },
+                responses: CreateResponses({
+                    200: z.string(),
+                    401: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+let connections: Array<string | undefined> = [];
+
+const sseHandlers: ObjectHandlers<typeof SseApiDefinition> = {
+    dashboard: {
+        live: async (req, res) => {
+            if (req.headers.authorization === 'Bearer revoked') {
+                res.respond(401, { error: 'Token revoked' });
+                return;
+            }
+
+            // Resumes after the Last-Event-ID the client sent, two ticks per connection
+            const lastEventId = req.headers['last-event-id'];
+            connections.push(lastEventId);
+            const from = lastEventId ? Number(lastEventId) + 1 : 1;
+            for (let sequence = from; sequence < from + (req.query.count ?? 2); sequence++) {
+                res.streamSSE('tick', { sequence, at: '2030-01-01T00:00:00Z' }, String(sequence));
+            }
+            res.streamSSE('status', { state: 'ok' });
+            res.endStream();
+        }
+    }
+};
+
+const collect = async <TEvents extends Record<string, any>>(iterable: AsyncIterable<SseMessage<TEvents>>, count: number) => {
+    const messages: SseMessage<TEvents>[] = [];
+    for await (const message of iterable) {
+        messages.push(message);
+        if (messages.length === count) break;
+    }
+    return messages;
+};
+
+describe('Server-Sent Events subscriptions', () => {
+    test('should pass typed events to the handlers and the iterator', async () => {
+        connections = [];
+        const client = createTestClient(SseApiDefinition, sseHandlers);
+        const sequences: number[] = [];
+        const states: string[] = [];
+
+        const subscription = client.subscribe('dashboard', 'live', { reconnect: false }, {
+            events: {
+                tick: data => { sequences.push(data.sequence); },
+                status: data => { states.push(data.state); }
+            }
+        });
+        const messages = await collect(subscription, 3);
+
+        expect(messages).toEqual([
+            { event: 'tick', data: { sequence: 1, at: '2030-01-01T00:00:00Z' }, id: '1' },
+            { event: 'tick', data: { sequence: 2, at: '2030-01-01T00:00:00Z' }, id: '2' },
+            { event: 'status', data: { state: 'ok' }, id: '2' }
+        ]);
+        expect(sequences).toEqual([1, 2]);
+        expect(states).toEqual(['ok']);
+        expect(subscription.lastEventId).toBe('2');
+    });
+
+    test('should read untyped streams from Express over fetch', async () => {
+        const client = new ApiClient(`http://localhost:${SIMPLE_PORT}`, PublicApiDefinition);
+
+        const messages = await collect(client.subscribe('common', 'stream', { reconnect: false }), 10);
+
+        expect(messages.map(message => [message.event, message.data.sequence])).toEqual([['update', 1], ['update', 2], ['update', 3]]);
+    });
+
+    test('should reconnect with the Last-Event-ID of the last event received', async () => {
+        connections = [];
+        const client = createTestClient(SseApiDefinition, sseHandlers);
+        let opened = 0;
+
+        const subscription = client.subscribe('dashboard', 'live', { reconnectDelayMs: 10, lastEventId: '10' }, {
+            onOpen: () => { opened++; }
+        });
+        const ticks = (await collect(subscription, 6)).filter(message => message.event === 'tick');
+
+        expect(ticks.map(message => message.id)).toEqual(['11', '12', '13', '14']);
+        expect(connections).toEqual(['10', '12']);
+        expect(opened).toBe(2);
+    });
+
+    test('should end the subscription with an ApiCallError when the server refuses it', async () => {
+        const client = createTestClient(SseApiDefinition, sseHandlers);
+        const errors: unknown[] = [];
+
+        const subscription = client.subscribe('dashboard', 'live', { headers: { authorization: 'Bearer revoked' } }, {
+            onError: error => { errors.push(error); }
+        });
+        const error = await collect(subscription, 1).catch(e => e);
+
+        expect(error).toBeInstanceOf(ApiCallError);
+        expect(error.status).toBe(401);
+        expect(error.result.data).toEqual({ error: 'Token revoked' });
+        expect(errors).toEqual([error]);
+    });
+
+    test('should keep delivering and end cleanly when the handlers throw', async () => {
+        const client = createTestClient(SseApiDefinition, sseHandlers);
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+        const unhandled: unknown[] = [];
+        const onUnhandled = (reason: unknown) => { unhandled.push(reason); };
+        process.on('unhandledRejection', onUnhandled);
+
+        try {
+            const messages = await collect(client.subscribe('dashboard', 'live', { reconnect: false }, {
+                onOpen: () => { throw new Error('open failed'); },
+                onMessage: () => { throw new Error('message failed'); }
+            }), 3);
+            expect(messages.map(message => message.event)).toEqual(['tick', 'tick', 'status']);
+
+            const refused = client.subscribe('dashboard', 'live', { headers: { authorization: 'Bearer revoked' } }, {
+                onError: () => { throw new Error('error failed'); }
+            });
+            const error = await collect(refused, 1).catch(e => e);
+            expect(error).toBeInstanceOf(ApiCallError);
+
+            await new Promise(resolve => setTimeout(resolve, 10));
+            expect(unhandled).toEqual([]);
+            expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Error in subscribe onError handler'), expect.any(Error));
+        } finally {
+            process.off('unhandledRejection', onUnhandled);
+            consoleError.mockRestore();
+        }
+    });
+
+    test('should drop events that break the SSE contract on the server', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const client = createTestClient(SseApiDefinition, {
+            dashboard: {
+                live: async (req, res) => {
+                    // @ts-expect-error - 'progress' is not declared in the route's sse contract
+                    res.streamSSE('progress', { percent: 50 });
+                    // @ts-expect-error - tick data must match its schema
+                    res.streamSSE('tick', { sequence: 'one', at: 'now' });
+                    res.streamSSE('status', { state: 'degraded' });
+                    res.endStream();
+                }
+            }
+        });
+
+        try {
+            const messages = await collect(client.subscribe('dashboard', 'live', { reconnect: false }), 10);
+
+            expect(messages).toEqual([{ event: 'status', data: { state: 'degraded' }, id: undefined }]);
+            expect(consoleError.mock.calls.map(call => String(call[0]))).toEqual([
+                'SSE event "progress" is not declared for route dashboard/live; the event was not sent.',
+                'FATAL: SSE event "tick" failed Zod validation in route dashboard/live; the event was not sent.'
+            ]);
+        } finally {
+            consoleError.mockRestore();
+        }
+    });
+});
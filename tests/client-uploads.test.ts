@@ -0,0 +1,223 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ApiClient, createFetchHandler, createTestClient, CreateApiDefinition, CreateResponses, InMemoryHttpClientAdapter, RegisterHandlers, RegisterHonoHandlers } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { FileUploadApiDefinition, FILE_UPLOAD_PORT, FILE_UPLOAD_HONO_PORT } from './setup';
+
+const GalleryApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        gallery: {
+            addPhotos: {
+                method: 'POST',
+                path: '/gallery/photos',
+                body: z.object({ album: z.string(), tags: z.string().optional() }),
+                fileUpload: {
+                    array: { fieldName: 'photos', maxCount: 2, maxSize: 1024, allowedMimeTypes: ['image/png'] }
+                },
+                responses: CreateResponses({
+                    201: z.object({ album: z.string(), tags: z.string().optional(), names: z.array(z.string()) })
+                })
+            },
+            addDocuments: {
+                method: 'POST',
+                path: '/gallery/documents',
+                fileUpload: {
+                    fields: [
+                        { fieldName: 'cover', maxCount: 1 },
+                        { fieldName: 'pages', maxCount: 3 }
+                    ]
+                },
+                responses: CreateResponses({
+                    201: z.object({ cover: z.number(), pages: z.number() })
+                })
+            },
+            addAlbum: {
+                method: 'POST',
+                path: '/gallery/albums',
+                body: z.object({
+                    title: z.string(),
+                    year: z.number().int(),
+                    shared: z.boolean(),
+                    location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+                    tags: z.array(z.string()).optional()
+                }),
+                fileUpload: {
+                    single: { fieldName: 'cover' }
+                },
+                responses: CreateResponses({
+                    201: z.object({
+                        title: z.string(),
+                        year: z.number(),
+                        shared: z.boolean(),
+                        location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+                        tags: z.array(z.string()).optional(),
+                        cover: z.string().optional()
+                    })
+                })
+            },
+            addScans: {
+                method: 'POST',
+                path: '/gallery/scans',
+                fileUpload: {
+                    array: { fieldName: 'scans' }
+                },
+                responses: CreateResponses({
+                    201: z.object({ count: z.number() })
+                })
+            }
+        }
+    }
+});
+
+const galleryHandlers: ObjectHandlers<typeof GalleryApiDefinition> = {
+    gallery: {
+        addPhotos: async (req: any, res) => {
+            res.respond(201, { album: req.body.album, tags: req.body.tags, names: req.files.map((file: any) => file.originalname) });
+        },
+        addDocuments: async (req: any, res) => {
+            res.respond(201, { cover: req.files.cover?.length ?? 0, pages: req.files.pages?.length ?? 0 });
+        },
+        addAlbum: async (req: any, res) => {
+            res.respond(201, { ...req.body, cover: req.file?.originalname });
+        },
+        addScans: async (req: any, res) => {
+            res.respond(201, { count: req.files.length });
+        }
+    }
+};
+
+const GALLERY_EXPRESS_PORT = 3021;
+
+const png = (name: string, size = 10) => new File([new Uint8Array(size)], name, { type: 'image/png' });
+
+describe('Client file uploads', () => {
+    let server: Server;
+    const honoApp = new Hono();
+
+    beforeAll(async () => {
+        const app = express();
+        RegisterHandlers(app, GalleryApiDefinition, galleryHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(GALLERY_EXPRESS_PORT, () => resolve());
+        });
+
+        RegisterHonoHandlers(honoApp, GalleryApiDefinition, galleryHandlers);
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test.each([
+        ['Express', FILE_UPLOAD_PORT],
+        ['Hono', FILE_UPLOAD_HONO_PORT]
+    ])('should upload a single file with body fields to %s', async (_name, port) => {
+        const client = new ApiClient(`http://localhost:${port}`, FileUploadApiDefinition);
+        const file = new File(['fake image'], 'avatar.png', { type: 'image/png' });
+
+        const result = await client.callApiResult('files', 'uploadSingle', { body: { description: 'Avatar' }, files: { file } });
+
+        expect(result).toMatchObject({
+            status: 200,
+            data: { fileInfo: { originalName: 'avatar.png', size: file.size, mimetype: 'image/png' } }
+        });
+    });
+
+    test('should send multiple files and body fields as multipart', async () => {
+        const client = createTestClient(GalleryApiDefinition, galleryHandlers);
+
+        const photos = await client.callApiResult('gallery', 'addPhotos', {
+            body: { album: 'Holidays', tags: 'beach' },
+            files: { photos: [png('a.png'), png('b.png')] }
+        });
+        expect(photos).toMatchObject({ status: 201, data: { album: 'Holidays', tags: 'beach', names: ['a.png', 'b.png'] } });
+
+        const documents = await client.callApiResult('gallery', 'addDocuments', {
+            files: { cover: [png('cover.png')], pages: [png('1.png'), png('2.png')] }
+        });
+        expect(documents).toMatchObject({ status: 201, data: { cover: 1, pages: 2 } });
+    });
+
+    test('should reject files that break the upload config before sending', async () => {
+        const client = createTestClient(GalleryApiDefinition, galleryHandlers);
+        let requests = 0;
+        client.addInterceptor({ onRequest: () => { requests++; } });
+
+        const tooMany = await client.callApiResult('gallery', 'addPhotos', { body: { album: 'A' }, files: { photos: [png('1.png'), png('2.png'), png('3.png')] } });
+        expect(tooMany).toMatchObject({ status: 422, rawResponse: null, error: [{ field: 'file', type: 'body', message: 'Maximum 2 files allowed' }] });
+
+        const tooLarge = await client.callApiResult('gallery', 'addPhotos', { body: { album: 'A' }, files: { photos: [png('big.png', 2048)] } });
+        expect(tooLarge.error).toEqual([{ field: 'file', type: 'body', message: 'File size exceeds 1024 bytes' }]);
+
+        const wrongType = await client.callApiResult('gallery', 'addPhotos', {
+            body: { album: 'A' },
+            files: { photos: [new File(['%PDF'], 'doc.pdf', { type: 'application/pdf' })] }
+        });
+        expect(wrongType.error).toEqual([{ field: 'file', type: 'body', message: 'File type application/pdf not allowed' }]);
+
+        const tooManyPages = await client.callApiResult('gallery', 'addDocuments', { files: { pages: [png('1.png'), png('2.png'), png('3.png'), png('4.png')] } });
+        expect(tooManyPages.error).toEqual([{ field: 'pages', type: 'body', message: 'Maximum 3 files allowed' }]);
+
+        expect(requests).toBe(0);
+    });
+
+    test.each([
+        ['the in-memory test client', () => createTestClient(GalleryApiDefinition, galleryHandlers)],
+        ['Express', () => new ApiClient(`http://localhost:${GALLERY_EXPRESS_PORT}`, GalleryApiDefinition)],
+        ['Hono', () => new ApiClient('http://localhost', GalleryApiDefinition, new InMemoryHttpClientAdapter(async request => honoApp.fetch(request)))]
+    ])('should coerce number, boolean and JSON body fields of uploads on %s', async (_name, createClient) => {
+        const client = createClient();
+
+        const album = await client.callApiResult('gallery', 'addAlbum', {
+            body: { title: 'Summer', year: 2030, shared: false, location: { lat: 52.5, lng: 13.4 }, tags: ['beach', 'sun'] },
+            files: { cover: png('cover.png') }
+        });
+        expect(album).toMatchObject({
+            status: 201,
+            data: { title: 'Summer', year: 2030, shared: false, location: { lat: 52.5, lng: 13.4 }, tags: ['beach', 'sun'], cover: 'cover.png' }
+        });
+
+        const minimal = await client.callApiResult('gallery', 'addAlbum', { body: { title: 'Winter', year: 2031, shared: true }, files: {} });
+        expect(minimal).toMatchObject({ status: 201, data: { title: 'Winter', year: 2031, shared: true } });
+    });
+
+    test.each([
+        ['the fetch handler', (init: RequestInit) => createFetchHandler(GalleryApiDefinition, galleryHandlers)(new Request('http://localhost/api/gallery/albums', init))],
+        ['Express', (init: RequestInit) => fetch(`http://localhost:${GALLERY_EXPRESS_PORT}/api/gallery/albums`, init)],
+        ['Hono', (init: RequestInit) => honoApp.request('/api/gallery/albums', init)]
+    ])('should reject files sent under undeclared fields on %s', async (_name, request) => {
+        const body = new FormData();
+        body.append('title', 'Summer');
+        body.append('year', '2030');
+        body.append('shared', 'true');
+        body.append('backdrop', png('backdrop.png'));
+
+        const response = await request({ method: 'POST', body });
+
+        expect(response.status).toBe(422);
+        expect(await response.json()).toEqual({ data: null, error: [{ field: 'backdrop', type: 'body', message: 'Unexpected field: backdrop' }] });
+    });
+
+    test('should apply the default upload limits of the servers before sending', async () => {
+        const client = createTestClient(GalleryApiDefinition, galleryHandlers);
+        let requests = 0;
+        client.addInterceptor({ onRequest: () => { requests++; } });
+
+        const tooMany = await client.callApiResult('gallery', 'addScans', { files: { scans: Array.from({ length: 11 }, (_, index) => png(`${index}.png`)) } });
+        expect(tooMany.error).toEqual([{ field: 'file', type: 'body', message: 'Maximum 10 files allowed' }]);
+
+        const tooLarge = await client.callApiResult('gallery', 'addScans', { files: { scans: [png('big.png', 10 * 1024 * 1024 + 1)] } });
+        expect(tooLarge.error).toEqual([{ field: 'file', type: 'body', message: `File size exceeds ${10 * 1024 * 1024} bytes` }]);
+
+        expect(requests).toBe(0);
+
+        const ten = await client.callApiResult('gallery', 'addScans', { files: { scans: Array.from({ length: 10 }, (_, index) => png(`${index}.png`)) } });
+        expect(ten).toMatchObject({ status: 201, data: { count: 10 } });
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+import { createTestClient, CreateApiDefinition, CreateResponses } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const ValidationApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        users: {
+            update: {
+                method: 'PUT',
+                path: '/users/:id',
+                params: z.object({ id: z.uuid() }),
+                query: z.object({ notify: z.enum(['yes', 'no']).optional() }),
+                body: z.object({ name: z.string().min(2), email: z.email() }),
+                responses: CreateResponses({
+                    200: z.object({ name: z.string() })
+                })
+            },
+            session: {
+                method: 'GET',
+                path: '/session',
+                headers: z.object({ 'x-tenant-id': z.number().int().positive() }),
+                cookies: z.object({ session: z.string().min(8) }),
+                responses: CreateResponses({
+                    200: z.object({ tenant: z.number() })
+                })
+            }
+        }
+    }
+});
+
+const USER_ID = '3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60';
+let handlerCalls = 0;
+
+const validationHandlers: ObjectHandlers<typeof ValidationApiDefinition> = {
+    users: {
+        update: async (req, res) => {
+            handlerCalls++;
+            res.respond(200, { name: req.body.name });
+        },
+        session: async (req, res) => {
+            handlerCalls++;
+            res.respond(200, { tenant: req.headers['x-tenant-id'] });
+        }
+    }
+};
+
+describe('Client request validation', () => {
+    beforeEach(() => {
+        handlerCalls = 0;
+    });
+
+    test('should resolve with the same 422 result as the server without sending the request', async () => {
+        const client = createTestClient(ValidationApiDefinition, validationHandlers);
+        const invalidBody = { params: { id: USER_ID }, body: { name: 'A', email: 'not-an-email' } };
+
+        const fromServer = await client.callApiResult('users', 'update', invalidBody);
+        expect(handlerCalls).toBe(0);
+
+        client.setRequestValidation(true);
+        let requests = 0;
+        client.addInterceptor({ onRequest: () => { requests++; } });
+        const local = await client.callApiResult('users', 'update', invalidBody);
+
+        expect(requests).toBe(0);
+        expect(local.status).toBe(422);
+        expect(local.rawResponse).toBeNull();
+        expect(local.error).toEqual(fromServer.error);
+        expect(local.error?.map(issue => issue.field)).toEqual(['name', 'email']);
+    });
+
+    test('should validate params and query before the body like the server', async () => {
+        const client = createTestClient(ValidationApiDefinition, validationHandlers);
+        client.setRequestValidation(true);
+
+        const badParams = await client.callApiResult('users', 'update', { params: { id: '42' }, body: { name: 'A', email: 'x' } });
+        expect(badParams.error).toEqual([{ field: 'id', type: 'general', message: expect.any(String) }]);
+
+        const badQuery = await client.callApiResult('users', 'update', {
+            params: { id: USER_ID },
+            query: { notify: 'maybe' as 'yes' },
+            body: { name: 'Ada', email: 'ada@example.com' }
+        });
+        expect(badQuery.error?.[0].field).toBe('notify');
+    });
+
+    test('should validate headers and cookies like the server', async () => {
+        const client = createTestClient(ValidationApiDefinition, validationHandlers);
+        const badHeader = { headers: { 'x-tenant-id': -1 }, cookies: { session: 'abcdefgh' } };
+        const badCookie = { headers: { 'x-tenant-id': 7 }, cookies: { session: 'short' } };
+
+        const headerFromServer = await client.callApiResult('users', 'session', badHeader);
+        const cookieFromServer = await client.callApiResult('users', 'session', badCookie);
+        expect(handlerCalls).toBe(0);
+        expect(headerFromServer.error?.[0].field).toBe('x-tenant-id');
+        expect(cookieFromServer.error?.[0].field).toBe('session');
+
+        client.setRequestValidation(true);
+        let requests = 0;
+        client.addInterceptor({ onRequest: () => { requests++; } });
+
+        const localHeader = await client.callApiResult('users', 'session', badHeader);
+        const localCookie = await client.callApiResult('users', 'session', badCookie);
+        expect(requests).toBe(0);
+        expect(localHeader).toMatchObject({ status: 422, rawResponse: null, error: headerFromServer.error });
+        expect(localCookie).toMatchObject({ status: 422, rawResponse: null, error: cookieFromServer.error });
+
+        const valid = await client.callApiResult('users', 'session', { headers: { 'x-tenant-id': 7 }, cookies: { session: 'abcdefgh' } });
+        expect(valid).toMatchObject({ status: 200, data: { tenant: 7 } });
+    });
+
+    test('should send valid requests and honour the per-call override', async () => {
+        const client = createTestClient(ValidationApiDefinition, validationHandlers);
+        client.setRequestValidation(true);
+
+        const valid = await client.callApiResult('users', 'update', { params: { id: USER_ID }, body: { name: 'Ada', email: 'ada@example.com' } });
+        expect(valid).toMatchObject({ status: 200, data: { name: 'Ada' } });
+        expect(handlerCalls).toBe(1);
+
+        const skipped = await client.callApiResult('users', 'update', {
+            params: { id: USER_ID },
+            body: { name: 'A', email: 'ada@example.com' },
+            validateRequest: false
+        });
+        expect(skipped.status).toBe(422);
+        expect(skipped.rawResponse).not.toBeNull();
+    });
+});
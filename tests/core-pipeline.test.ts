@@ -0,0 +1,219 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { RegisterHandlers, RegisterHonoHandlers, RegisterAdapterHandlers, CreateApiDefinition, CreateResponses, HttpError, ErrorHandler, EndpointMiddleware, ServerAdapter, AdapterRoute } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const PipelineApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        notes: {
+            get: {
+                method: 'GET',
+                path: '/notes/:id',
+                params: z.object({ id: z.number().int() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), text: z.string() }),
+                    401: z.object({ error: z.string() })
+                })
+            },
+            update: {
+                method: 'PATCH',
+                path: '/notes/:id',
+                params: z.object({ id: z.number().int() }),
+                body: z.object({ text: z.string().min(1) }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), text: z.string() })
+                })
+            },
+            fail: {
+                method: 'GET',
+                path: '/fail',
+                responses: CreateResponses({
+                    200: z.object({ ok: z.boolean() })
+                })
+            }
+        }
+    }
+});
+
+const pipelineHandlers: ObjectHandlers<typeof PipelineApiDefinition> = {
+    notes: {
+        get: async (req, res) => {
+            res.respond(200, { id: req.params.id, text: 'note' });
+        },
+        update: async (req, res) => {
+            res.respond(200, { id: req.params.id, text: req.body.text });
+        },
+        fail: async () => {
+            throw new Error('Boom');
+        }
+    }
+};
+
+// Middlewares may throw as well; the pipeline routes those errors like handler errors
+const throwingMiddleware: EndpointMiddleware<typeof PipelineApiDefinition> = async (req, res, next) => {
+    if (req.headers['x-middleware'] === 'throw') {
+        throw new Error('Middleware failure');
+    }
+    if (req.headers['x-middleware'] === 'unauthorized') {
+        throw new HttpError(401, { error: 'Unauthorized' });
+    }
+    await next();
+};
+
+// Callback-style middleware: sets a header, then calls next() from a timer or answers through Express's res.send
+const callbackMiddleware: EndpointMiddleware<typeof PipelineApiDefinition> = (req, res, next) => {
+    res.setHeader('X-Request-Id', 'req-1');
+    if (req.headers['x-middleware'] === 'express-send') {
+        (res as any).status(401).send('Unauthorized');
+        return;
+    }
+    setTimeout(() => next(), 10);
+};
+
+const teapotErrorHandler: ErrorHandler = (error, routeDefinition, method, path, res) => {
+    if (error instanceof Error && error.message === 'Boom') {
+        res.status(418).json({ handled: true });
+        return true;
+    }
+};
+
+// Minimal adapter keeping routes in memory, the way a custom framework integration would
+function createMemoryAdapter() {
+    const routes: AdapterRoute[] = [];
+    const adapter: ServerAdapter<AdapterRoute[]> = {
+        registerRoute(app, route) {
+            app.push(route);
+        }
+    };
+    return { adapter, routes };
+}
+
+const PIPELINE_EXPRESS_PORT = 3015;
+
+describe('Core request pipeline', () => {
+    let server: Server;
+    const honoApp = new Hono();
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        RegisterHandlers(app, PipelineApiDefinition, pipelineHandlers, [callbackMiddleware, throwingMiddleware], teapotErrorHandler);
+        await new Promise<void>(resolve => {
+            server = app.listen(PIPELINE_EXPRESS_PORT, () => resolve());
+        });
+
+        RegisterHonoHandlers(honoApp, PipelineApiDefinition, pipelineHandlers, [callbackMiddleware, throwingMiddleware], teapotErrorHandler);
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    const expressRequest = (path: string, init?: RequestInit) => fetch(`http://localhost:${PIPELINE_EXPRESS_PORT}${path}`, init);
+    const honoRequest = async (path: string, init?: RequestInit) => honoApp.request(path, init);
+
+    describe.each([
+        ['Express', expressRequest],
+        ['Hono', honoRequest]
+    ])('%s adapter', (_name, request) => {
+        test('should validate PATCH bodies', async () => {
+            const invalid = await request('/api/notes/1', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text: '' })
+            });
+            expect(invalid.status).toBe(422);
+            // Headers set by a middleware are kept on the validation error response
+            expect(invalid.headers.get('x-request-id')).toBe('req-1');
+
+            const valid = await request('/api/notes/1', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ text: 'updated' })
+            });
+            expect(valid.status).toBe(200);
+            expect(await valid.json()).toEqual({ data: { id: 1, text: 'updated' } });
+        });
+
+        test('should pass handler errors to the custom error handler', async () => {
+            const response = await request('/api/fail');
+            expect(response.status).toBe(418);
+            expect(await response.json()).toEqual({ handled: true });
+        });
+
+        test('should wait for middlewares that call next() asynchronously', async () => {
+            const response = await request('/api/notes/3');
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ data: { id: 3, text: 'note' } });
+        });
+
+        test('should keep middleware headers on 500 responses', async () => {
+            const response = await request('/api/notes/1', { headers: { 'X-Middleware': 'throw' } });
+            expect(response.status).toBe(500);
+            expect(response.headers.get('x-request-id')).toBe('req-1');
+        });
+
+        test('should not swallow middleware errors', async () => {
+            const failed = await request('/api/notes/1', { headers: { 'X-Middleware': 'throw' } });
+            expect(failed.status).toBe(500);
+
+            const unauthorized = await request('/api/notes/1', { headers: { 'X-Middleware': 'unauthorized' } });
+            expect(unauthorized.status).toBe(401);
+            expect(await unauthorized.json()).toEqual({ data: { error: 'Unauthorized' } });
+        });
+    });
+
+    test('should send bodies written with Express response methods in middlewares', async () => {
+        const response = await expressRequest('/api/notes/1', { headers: { 'X-Middleware': 'express-send' } });
+        expect(response.status).toBe(401);
+        expect(response.headers.get('x-request-id')).toBe('req-1');
+        expect(await response.text()).toBe('Unauthorized');
+    });
+
+    test('should serve routes through a custom adapter with the same semantics', async () => {
+        const { adapter, routes } = createMemoryAdapter();
+        RegisterAdapterHandlers(adapter, routes, PipelineApiDefinition, pipelineHandlers, [throwingMiddleware]);
+
+        const getRoute = routes.find(route => route.domain === 'notes' && route.routeKey === 'get')!;
+        expect(getRoute.method).toBe('GET');
+        expect(getRoute.path).toBe('/api/notes/:id');
+
+        const baseRequest = { method: 'GET', path: '/api/notes/7', url: '/api/notes/7', query: {}, headers: {} };
+
+        const ok = await getRoute.handle({ ...baseRequest, params: { id: '7' } });
+        expect(ok).toEqual({ type: 'json', status: 200, headers: {}, body: { data: { id: 7, text: 'note' } } });
+
+        const invalid = await getRoute.handle({ ...baseRequest, params: { id: 'abc' } });
+        expect(invalid.status).toBe(422);
+
+        const unauthorized = await getRoute.handle({ ...baseRequest, params: { id: '7' }, headers: { 'x-middleware': 'unauthorized' } });
+        expect(unauthorized.status).toBe(401);
+    });
+
+    test('should settle the middleware chain when a middleware responds without calling next()', async () => {
+        const { adapter, routes } = createMemoryAdapter();
+        let settled = false;
+        const outerMiddleware: EndpointMiddleware<typeof PipelineApiDefinition> = async (req, res, next) => {
+            await next();
+            settled = true;
+        };
+        // Answers from a timer and never calls next()
+        const delayedAuthMiddleware: EndpointMiddleware<typeof PipelineApiDefinition> = (req, res) => {
+            setTimeout(() => res.status(401).json({ error: 'Unauthorized' }), 10);
+        };
+        RegisterAdapterHandlers(adapter, routes, PipelineApiDefinition, pipelineHandlers, [outerMiddleware, delayedAuthMiddleware]);
+
+        const getRoute = routes.find(route => route.domain === 'notes' && route.routeKey === 'get')!;
+        const response = await getRoute.handle({ method: 'GET', path: '/api/notes/7', url: '/api/notes/7', query: {}, headers: {}, params: { id: '7' } });
+        expect(response.status).toBe(401);
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(settled).toBe(true);
+    });
+});
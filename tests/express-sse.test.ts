@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { z } from 'zod';
+import { CreateApiDefinition, CreateResponses, RegisterHandlers, getSSEConnections, closeSSEConnections } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const ExpressSseApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        feed: {
+            events: {
+                method: 'GET',
+                path: '/feed/events',
+                sse: {
+                    entry: z.object({ sequence: z.number() })
+                },
+                responses: CreateResponses({ 200: z.string() })
+            },
+            bulk: {
+                method: 'GET',
+                path: '/feed/bulk',
+                responses: CreateResponses({ 200: z.string() })
+            }
+        }
+    }
+});
+
+let drainedWrites = 0;
+
+const expressSseHandlers: ObjectHandlers<typeof ExpressSseApiDefinition> = {
+    feed: {
+        events: async (req, res) => {
+            // Resumes after the event the client saw last, then stays open
+            const from = req.lastEventId ? Number(req.lastEventId) + 1 : 1;
+            res.startSSE({ retryMs: 2500 });
+            res.streamSSE('entry', { sequence: from }, String(from));
+        },
+        bulk: async (req, res) => {
+            // Writes far more than the socket buffer holds, waiting whenever Express is saturated
+            const payload = 'x'.repeat(64 * 1024);
+            for (let i = 0; i < 64; i++) {
+                res.streamSSE('chunk', payload);
+                await res.waitForSSEDrain();
+                drainedWrites++;
+            }
+            res.endStream();
+        }
+    }
+};
+
+async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, expected: string): Promise<string> {
+    let text = '';
+    while (!text.includes(expected)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += new TextDecoder().decode(value);
+    }
+    return text;
+}
+
+const EXPRESS_SSE_PORT = 3019;
+const baseUrl = `http://localhost:${EXPRESS_SSE_PORT}/api`;
+
+describe('Express SSE streaming', () => {
+    let server: Server;
+
+    beforeAll(async () => {
+        const app = express();
+        RegisterHandlers(app, ExpressSseApiDefinition, expressSseHandlers, undefined, undefined, {
+            sse: { heartbeatMs: 20, cors: { origin: 'https://app.example.com' } }
+        });
+        await new Promise<void>(resolve => {
+            server = app.listen(EXPRESS_SSE_PORT, () => resolve());
+        });
+    });
+
+    afterAll(async () => {
+        closeSSEConnections();
+        if (server) {
+            server.close();
+        }
+    });
+
+    test('should send the retry hint, resume after Last-Event-ID and keep the stream alive', async () => {
+        const response = await fetch(`${baseUrl}/feed/events`, { headers: { 'Last-Event-ID': '41' } });
+        expect(response.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+        expect(response.headers.get('access-control-allow-headers')).toBeNull();
+        const reader = response.body!.getReader();
+
+        const text = await readUntil(reader, ': keep-alive\n\n');
+        expect(text).toBe('retry: 2500\n\nevent: entry\nid: 42\ndata: {"sequence":42}\n\n: keep-alive\n\n');
+
+        await reader.cancel();
+    });
+
+    test('should list open connections and close them for shutdown', async () => {
+        const response = await fetch(`${baseUrl}/feed/events`);
+        const reader = response.body!.getReader();
+        await readUntil(reader, 'event: entry');
+
+        expect(getSSEConnections()).toEqual([
+            expect.objectContaining({ domain: 'feed', routeKey: 'events', path: '/api/feed/events', openedAt: expect.any(Date) })
+        ]);
+
+        closeSSEConnections();
+
+        // The stream ends from the server side
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            // Drain whatever was sent before the close
+        }
+        expect(getSSEConnections()).toEqual([]);
+    });
+
+    test('should forget connections the client has dropped', async () => {
+        const response = await fetch(`${baseUrl}/feed/events`);
+        const reader = response.body!.getReader();
+        await readUntil(reader, 'event: entry');
+        expect(getSSEConnections()).toHaveLength(1);
+
+        await reader.cancel();
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(getSSEConnections()).toEqual([]);
+    });
+
+    test('should let handlers wait while the connection is saturated', async () => {
+        drainedWrites = 0;
+        const response = await fetch(`${baseUrl}/feed/bulk`);
+        const reader = response.body!.getReader();
+
+        // Nobody reads yet, so the handler stops well before its last event
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(drainedWrites).toBeLessThan(64);
+
+        let received = 0;
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            received += chunk.value.length;
+        }
+        expect(drainedWrites).toBe(64);
+        expect(received).toBeGreaterThan(64 * 64 * 1024);
+    });
+});
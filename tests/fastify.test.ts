@@ -0,0 +1,189 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import Fastify from 'fastify';
+import { z } from 'zod';
+import { ApiClient, RegisterFastifyHandlers, CreateApiDefinition, CreateResponses, HttpError, EndpointMiddleware } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const FastifyApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        notes: {
+            get: {
+                method: 'GET',
+                path: '/notes/:id',
+                params: z.object({ id: z.number().int() }),
+                query: z.object({ verbose: z.boolean().optional() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), text: z.string(), verbose: z.boolean() }),
+                    401: z.object({ error: z.string() })
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/notes',
+                body: z.object({ text: z.string().min(1) }),
+                responses: CreateResponses({
+                    201: z.object({ id: z.number(), text: z.string() })
+                })
+            },
+            text: {
+                method: 'GET',
+                path: '/notes/text',
+                responses: CreateResponses({
+                    200: z.string()
+                })
+            },
+            events: {
+                method: 'GET',
+                path: '/notes/events',
+                responses: CreateResponses({
+                    200: z.string()
+                })
+            }
+        },
+        files: {
+            upload: {
+                method: 'POST',
+                path: '/upload',
+                body: z.object({ description: z.string().optional() }),
+                fileUpload: {
+                    single: {
+                        fieldName: 'file',
+                        maxSize: 1024,
+                        allowedMimeTypes: ['text/plain']
+                    }
+                },
+                responses: CreateResponses({
+                    200: z.object({ originalName: z.string(), size: z.number(), description: z.string().nullable() })
+                })
+            }
+        }
+    }
+});
+
+const fastifyHandlers: ObjectHandlers<typeof FastifyApiDefinition> = {
+    notes: {
+        get: async (req, res) => {
+            res.respond(200, { id: req.params.id, text: 'note', verbose: req.query.verbose ?? false });
+        },
+        create: async (req, res) => {
+            res.respond(201, { id: 1, text: req.body.text });
+        },
+        text: async (req, res) => {
+            res.respondContentType(200, 'plain note', 'text/plain');
+        },
+        events: async (req, res) => {
+            res.startSSE();
+            res.streamSSE('update', { id: 1 }, '1');
+            res.streamSSE('update', { id: 2 }, '2');
+            res.endStream();
+        }
+    },
+    files: {
+        upload: async (req, res) => {
+            const file = (req as any).file;
+            res.respond(200, { originalName: file.originalname, size: file.size, description: req.body.description ?? null });
+        }
+    }
+};
+
+const authMiddleware: EndpointMiddleware<typeof FastifyApiDefinition> = async (req, res, next) => {
+    if (req.headers['x-token'] === 'invalid') {
+        throw new HttpError(401, { error: 'Unauthorized' });
+    }
+    await next();
+};
+
+const FASTIFY_PORT = 3016;
+
+describe('Fastify adapter', () => {
+    const app = Fastify();
+    const baseUrl = `http://localhost:${FASTIFY_PORT}`;
+
+    beforeAll(async () => {
+        RegisterFastifyHandlers(app, FastifyApiDefinition, fastifyHandlers, [authMiddleware]);
+        await app.listen({ port: FASTIFY_PORT });
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    test('should serve typed responses to the ApiClient', async () => {
+        const client = new ApiClient(baseUrl, FastifyApiDefinition);
+
+        const result = await client.callApi('notes', 'get', { params: { id: 5 }, query: { verbose: true } }, {
+            200: ({ data }) => data,
+            401: () => { throw new Error('Unexpected 401'); },
+            422: ({ error }) => { throw new Error(JSON.stringify(error)); }
+        });
+
+        expect(result).toEqual({ id: 5, text: 'note', verbose: true });
+    });
+
+    test('should validate params and bodies', async () => {
+        const invalidParams = await fetch(`${baseUrl}/api/notes/abc`);
+        expect(invalidParams.status).toBe(422);
+
+        const invalidBody = await fetch(`${baseUrl}/api/notes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text: '' })
+        });
+        expect(invalidBody.status).toBe(422);
+
+        const created = await fetch(`${baseUrl}/api/notes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text: 'hello' })
+        });
+        expect(created.status).toBe(201);
+        expect(await created.json()).toEqual({ data: { id: 1, text: 'hello' } });
+    });
+
+    test('should run middlewares', async () => {
+        const response = await fetch(`${baseUrl}/api/notes/1`, { headers: { 'X-Token': 'invalid' } });
+        expect(response.status).toBe(401);
+        expect(await response.json()).toEqual({ data: { error: 'Unauthorized' } });
+    });
+
+    test('should send custom content types', async () => {
+        const response = await fetch(`${baseUrl}/api/notes/text`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/plain');
+        expect(await response.text()).toBe('plain note');
+    });
+
+    test('should stream server-sent events', async () => {
+        const response = await fetch(`${baseUrl}/api/notes/events`);
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+        const body = await response.text();
+        expect(body).toContain('event: update\nid: 1\ndata: {"id":1}');
+        expect(body).toContain('id: 2');
+    });
+
+    test('should accept file uploads within the FileUploadConfig limits', async () => {
+        const form = new FormData();
+        form.append('description', 'notes');
+        form.append('file', new Blob(['hello'], { type: 'text/plain' }), 'hello.txt');
+
+        const response = await fetch(`${baseUrl}/api/upload`, { method: 'POST', body: form });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ data: { originalName: 'hello.txt', size: 5, description: 'notes' } });
+    });
+
+    test('should reject uploads violating the FileUploadConfig', async () => {
+        const wrongType = new FormData();
+        wrongType.append('file', new Blob(['{}'], { type: 'application/json' }), 'data.json');
+        const wrongTypeResponse = await fetch(`${baseUrl}/api/upload`, { method: 'POST', body: wrongType });
+        expect(wrongTypeResponse.status).toBe(422);
+        expect((await wrongTypeResponse.json() as any).error[0].message).toBe('File type application/json not allowed');
+
+        const tooLarge = new FormData();
+        tooLarge.append('file', new Blob(['x'.repeat(2048)], { type: 'text/plain' }), 'large.txt');
+        const tooLargeResponse = await fetch(`${baseUrl}/api/upload`, { method: 'POST', body: tooLarge });
+        expect(tooLargeResponse.status).toBe(422);
+        expect((await tooLargeResponse.json() as any).error[0].message).toBe('File size exceeds the allowed limit');
+    });
+});
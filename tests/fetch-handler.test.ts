@@ -0,0 +1,239 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { createFetchHandler, CreateApiDefinition, CreateResponses, HttpError, EndpointMiddleware } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const FetchApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        notes: {
+            get: {
+                method: 'GET',
+                path: '/notes/:id',
+                params: z.object({ id: z.number().int() }),
+                query: z.object({ verbose: z.boolean().optional() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), verbose: z.boolean() }),
+                    401: z.object({ error: z.string() })
+                })
+            },
+            latest: {
+                method: 'GET',
+                path: '/notes/latest',
+                responses: CreateResponses({
+                    200: z.object({ latest: z.boolean() })
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/notes',
+                body: z.object({ text: z.string().min(1) }),
+                responses: CreateResponses({
+                    201: z.object({ text: z.string() })
+                })
+            },
+            events: {
+                method: 'GET',
+                path: '/notes/events',
+                responses: CreateResponses({
+                    200: z.string()
+                })
+            }
+        },
+        paths: {
+            archive: {
+                method: 'GET',
+                path: '/archive/:year?',
+                params: z.object({ year: z.number().optional() }),
+                responses: CreateResponses({ 200: z.object({ year: z.number().nullable() }) })
+            },
+            item: {
+                method: 'GET',
+                path: '/items/:id{[0-9]+}',
+                params: z.object({ id: z.number() }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            file: {
+                method: 'GET',
+                path: '/files/*filePath',
+                params: z.object({ filePath: z.array(z.string()) }),
+                responses: CreateResponses({ 200: z.object({ filePath: z.array(z.string()) }) })
+            },
+            report: {
+                method: 'GET',
+                path: '/reports/:name{.:format}',
+                params: z.object({ name: z.string(), format: z.string().optional() }),
+                responses: CreateResponses({ 200: z.object({ name: z.string(), format: z.string().nullable() }) })
+            },
+            search: {
+                method: 'GET',
+                path: '/search',
+                query: z.object({ tag: z.array(z.string()) }),
+                responses: CreateResponses({ 200: z.object({ tags: z.array(z.string()) }) })
+            }
+        },
+        files: {
+            upload: {
+                method: 'POST',
+                path: '/upload',
+                body: z.object({ description: z.string().optional() }),
+                fileUpload: {
+                    single: { fieldName: 'file', maxSize: 1024, allowedMimeTypes: ['text/plain'] }
+                },
+                responses: CreateResponses({
+                    200: z.object({ originalName: z.string(), size: z.number(), description: z.string().nullable() })
+                })
+            }
+        }
+    }
+});
+
+const fetchHandlers: ObjectHandlers<typeof FetchApiDefinition> = {
+    notes: {
+        get: async (req, res) => {
+            res.respond(200, { id: req.params.id, verbose: req.query.verbose ?? false });
+        },
+        latest: async (req, res) => {
+            res.respond(200, { latest: true });
+        },
+        create: async (req, res) => {
+            res.respond(201, { text: req.body.text });
+        },
+        events: async (req, res) => {
+            res.streamSSE('update', { id: 1 }, '1');
+            res.endStream();
+        }
+    },
+    paths: {
+        archive: async (req, res) => {
+            res.respond(200, { year: req.params.year ?? null });
+        },
+        item: async (req, res) => {
+            res.respond(200, { id: req.params.id });
+        },
+        file: async (req, res) => {
+            res.respond(200, { filePath: req.params.filePath });
+        },
+        report: async (req, res) => {
+            res.respond(200, { name: req.params.name, format: req.params.format ?? null });
+        },
+        search: async (req, res) => {
+            res.respond(200, { tags: req.query.tag });
+        }
+    },
+    files: {
+        upload: async (req, res) => {
+            const file = (req as any).file;
+            res.respond(200, { originalName: file.originalname, size: file.size, description: req.body.description ?? null });
+        }
+    }
+};
+
+const authMiddleware: EndpointMiddleware<typeof FetchApiDefinition> = async (req, res, next) => {
+    if (req.headers['x-token'] === 'invalid' || req.cookies.session === 'revoked') {
+        throw new HttpError(401, { error: 'Unauthorized' });
+    }
+    await next();
+};
+
+describe('Fetch API handler', () => {
+    const handler = createFetchHandler(FetchApiDefinition, fetchHandlers, { middlewares: [authMiddleware] });
+    const request = (path: string, init?: RequestInit) => handler(new Request(`http://localhost${path}`, init));
+
+    test('should route requests and coerce params and query', async () => {
+        const response = await request('/api/notes/5?verbose=true');
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ data: { id: 5, verbose: true } });
+    });
+
+    test('should prefer static segments over path parameters', async () => {
+        const response = await request('/api/notes/latest');
+        expect(await response.json()).toEqual({ data: { latest: true } });
+    });
+
+    test('should validate requests with 422 responses', async () => {
+        expect((await request('/api/notes/abc')).status).toBe(422);
+
+        const invalidBody = await request('/api/notes', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text: '' })
+        });
+        expect(invalidBody.status).toBe(422);
+
+        const created = await request('/api/notes', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text: 'hello' })
+        });
+        expect(created.status).toBe(201);
+        expect(await created.json()).toEqual({ data: { text: 'hello' } });
+    });
+
+    test('should run middlewares', async () => {
+        const response = await request('/api/notes/1', { headers: { 'X-Token': 'invalid' } });
+        expect(response.status).toBe(401);
+        expect(await response.json()).toEqual({ data: { error: 'Unauthorized' } });
+    });
+
+    test('should give middlewares the parsed cookies', async () => {
+        const response = await request('/api/notes/1', { headers: { Cookie: 'theme=dark; session=revoked' } });
+        expect(response.status).toBe(401);
+    });
+
+    test('should answer HEAD requests from the GET route without a body', async () => {
+        const response = await request('/api/notes/5', { method: 'HEAD' });
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('application/json');
+        expect(await response.text()).toBe('');
+    });
+
+    test('should answer unknown routes with 404 and other methods with 405', async () => {
+        expect((await request('/api/unknown')).status).toBe(404);
+        expect((await request('/api/notes/1', { method: 'DELETE' })).status).toBe(405);
+    });
+
+    test('should match optional, constrained, wildcard and grouped placeholders', async () => {
+        expect(await (await request('/api/archive/2024')).json()).toEqual({ data: { year: 2024 } });
+        expect(await (await request('/api/archive')).json()).toEqual({ data: { year: null } });
+
+        expect(await (await request('/api/items/42')).json()).toEqual({ data: { id: 42 } });
+        expect((await request('/api/items/abc')).status).toBe(404);
+
+        expect(await (await request('/api/files/docs/q3%20report.pdf')).json()).toEqual({ data: { filePath: ['docs', 'q3 report.pdf'] } });
+
+        expect(await (await request('/api/reports/q3.csv')).json()).toEqual({ data: { name: 'q3', format: 'csv' } });
+        expect(await (await request('/api/reports/q3')).json()).toEqual({ data: { name: 'q3', format: null } });
+    });
+
+    test('should collect repeated query keys into arrays', async () => {
+        const response = await request('/api/search?tag=a&tag=b');
+        expect(await response.json()).toEqual({ data: { tags: ['a', 'b'] } });
+    });
+
+    test('should answer malformed percent-encoding in path parameters with 400', async () => {
+        const response = await request('/api/notes/%E0%A4%A');
+        expect(response.status).toBe(400);
+    });
+
+    test('should stream server-sent events', async () => {
+        const response = await request('/api/notes/events');
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        expect(await response.text()).toBe('event: update\nid: 1\ndata: {"id":1}\n\n');
+    });
+
+    test('should accept and validate file uploads', async () => {
+        const form = new FormData();
+        form.append('description', 'notes');
+        form.append('file', new Blob(['hello'], { type: 'text/plain' }), 'hello.txt');
+        const uploaded = await request('/api/upload', { method: 'POST', body: form });
+        expect(uploaded.status).toBe(200);
+        expect(await uploaded.json()).toEqual({ data: { originalName: 'hello.txt', size: 5, description: 'notes' } });
+
+        const tooLarge = new FormData();
+        tooLarge.append('file', new Blob(['x'.repeat(2048)], { type: 'text/plain' }), 'large.txt');
+        const rejected = await request('/api/upload', { method: 'POST', body: tooLarge });
+        expect(rejected.status).toBe(422);
+        expect((await rejected.json() as any).error[0].message).toBe('File size exceeds 1024 bytes');
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { ApiCallError, createTestClient, CreateApiDefinition, CreateResponses } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { ApiErrorResult, ApiSuccessResult } from '../src/client';
+
+const FluentApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        users: {
+            getUser: {
+                method: 'GET',
+                path: '/users/:id',
+                params: z.object({ id: z.number().int() }),
+                query: z.object({ fields: z.string().optional() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), name: z.string() }),
+                    404: z.object({ error: z.string() })
+                })
+            },
+            list: {
+                method: 'GET',
+                path: '/users',
+                responses: CreateResponses({
+                    200: z.array(z.object({ id: z.number(), name: z.string() }))
+                })
+            },
+            sync: {
+                method: 'POST',
+                path: '/users/sync',
+                responses: CreateResponses({
+                    // Custom 2xx code outside the standard registry
+                    299: z.object({ synced: z.number() }),
+                    409: z.object({ error: z.string() })
+                })
+            },
+            rename: {
+                method: 'PUT',
+                path: '/users/:id/name',
+                params: z.object({ id: z.number().int() }),
+                body: z.object({ name: z.string().min(2) }),
+                responses: CreateResponses({
+                    204: z.null()
+                })
+            }
+        }
+    }
+});
+
+const fluentHandlers: ObjectHandlers<typeof FluentApiDefinition> = {
+    users: {
+        getUser: async (req, res) => {
+            if (req.params.id !== 1) {
+                return res.respond(404, { error: 'User not found' });
+            }
+            res.respond(200, { id: 1, name: req.query.fields === 'upper' ? 'ADA' : 'Ada' });
+        },
+        list: async (req, res) => {
+            res.respond(200, [{ id: 1, name: 'Ada' }]);
+        },
+        sync: async (req, res) => {
+            res.respond(299, { synced: 3 });
+        },
+        rename: async (req, res) => {
+            res.respond(204, null);
+        }
+    }
+};
+
+describe('Fluent client', () => {
+    const client = createTestClient(FluentApiDefinition, fluentHandlers);
+
+    test('should return the result union for a route call', async () => {
+        const result = await client.api.users.getUser({ params: { id: 1 }, query: { fields: 'upper' } });
+
+        expect(result.status).toBe(200);
+        if (result.status === 200) {
+            expect(result.data).toEqual({ id: 1, name: 'ADA' });
+        }
+
+        const missing = await client.api.users.getUser({ params: { id: 2 } });
+        expect(missing.status).toBe(404);
+        if (missing.status === 404) {
+            expect(missing.data.error).toBe('User not found');
+        }
+    });
+
+    test('should allow omitting the call data when nothing is required', async () => {
+        const result = await client.api.users.list();
+        expect(result).toMatchObject({ status: 200, data: [{ id: 1, name: 'Ada' }] });
+    });
+
+    test('should return the success data with orThrow', async () => {
+        const user = await client.api.users.getUser({ params: { id: 1 } }).orThrow();
+        expect(user.name).toBe('Ada');
+
+        const renamed = await client.api.users.rename({ params: { id: 1 }, body: { name: 'Grace' } }).orThrow();
+        expect(renamed).toBeNull();
+    });
+
+    test('should treat custom 2xx statuses as success', async () => {
+        type SyncSuccess = ApiSuccessResult<typeof FluentApiDefinition, 'users', 'sync'>['status'];
+        type SyncError = ApiErrorResult<typeof FluentApiDefinition, 'users', 'sync'>['status'];
+        const successStatus: SyncSuccess = 299;
+        const errorStatuses: SyncError[] = [409, 422];
+        // @ts-expect-error - 299 is a success status
+        const misplaced: SyncError = 299;
+        expect([successStatus, ...errorStatuses, misplaced]).toHaveLength(4);
+
+        const synced = await client.api.users.sync().orThrow();
+        expect(synced.synced).toBe(3);
+    });
+
+    test('should throw a typed ApiCallError for other statuses with orThrow', async () => {
+        const notFound = await client.api.users.getUser({ params: { id: 2 } }).orThrow().catch(error => error);
+        expect(notFound).toBeInstanceOf(ApiCallError);
+        expect(notFound.status).toBe(404);
+        expect(notFound.result.data).toEqual({ error: 'User not found' });
+
+        const invalid = await client.api.users.rename({ params: { id: 1 }, body: { name: 'G' } }).orThrow().catch(error => error);
+        expect(invalid).toBeInstanceOf(ApiCallError);
+        expect(invalid.status).toBe(422);
+        expect(invalid.result.error[0].field).toBe('name');
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ApiClient, RegisterHandlers, RegisterHonoHandlers, CreateApiDefinition, CreateResponses } from '../src';
+import { generateOpenApiSpec } from '../src/openapi-self';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const HeadersApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        tenant: {
+            get: {
+                method: 'GET',
+                path: '/tenant',
+                headers: z.object({
+                    authorization: z.string().startsWith('Bearer '),
+                    'x-tenant-id': z.number().int(),
+                    'If-Match': z.string().optional()
+                }),
+                cookies: z.object({
+                    session: z.string().min(3)
+                }),
+                responses: CreateResponses({
+                    200: z.object({
+                        tenantId: z.number(),
+                        ifMatch: z.string().nullable(),
+                        session: z.string(),
+                        userAgent: z.string().nullable()
+                    })
+                })
+            }
+        }
+    }
+});
+
+const headersHandlers: ObjectHandlers<typeof HeadersApiDefinition> = {
+    tenant: {
+        get: async (req, res) => {
+            const tenantId: number = req.headers['x-tenant-id'];
+            // @ts-expect-error - x-tenant-id is typed as the parsed number, not the raw header string
+            const rawTenantId: string = req.headers['x-tenant-id'];
+            void rawTenantId;
+
+            res.respond(200, {
+                tenantId,
+                ifMatch: req.headers['If-Match'] ?? null,
+                session: req.cookies.session,
+                // Undeclared headers stay readable at runtime, but are not part of the typed headers
+                userAgent: ((req.headers as Record<string, unknown>)['user-agent'] as string | undefined) ?? null
+            });
+        }
+    }
+};
+
+const HEADERS_EXPRESS_PORT = 3010;
+
+describe('Typed headers and cookies', () => {
+    let server: Server;
+    const honoApp = new Hono();
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        RegisterHandlers(app, HeadersApiDefinition, headersHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(HEADERS_EXPRESS_PORT, () => resolve());
+        });
+
+        RegisterHonoHandlers(honoApp, HeadersApiDefinition, headersHandlers);
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test('should send typed headers and cookies from the client and parse them on Express', async () => {
+        const client = new ApiClient(`http://localhost:${HEADERS_EXPRESS_PORT}`, HeadersApiDefinition);
+
+        const result = await client.callApi('tenant', 'get', {
+            headers: { authorization: 'Bearer token', 'x-tenant-id': 42, 'If-Match': '"v1"' },
+            cookies: { session: 'abc 123' }
+        }, {
+            200: ({ data }) => data,
+            422: ({ error }) => {
+                throw new Error(`Validation error: ${JSON.stringify(error)}`);
+            }
+        });
+
+        expect(result.tenantId).toBe(42);
+        expect(result.ifMatch).toBe('"v1"');
+        expect(result.session).toBe('abc 123');
+        // Undeclared headers stay readable on req.headers
+        expect(result.userAgent).not.toBeNull();
+    });
+
+    test('should respond 422 on Express when a required header is missing', async () => {
+        const response = await fetch(`http://localhost:${HEADERS_EXPRESS_PORT}/api/tenant`, {
+            headers: { Cookie: 'session=abcdef' }
+        });
+        expect(response.status).toBe(422);
+        const body = await response.json() as any;
+        expect(body.error.length).toBeGreaterThan(0);
+    });
+
+    test('should respond 422 on Express when a cookie fails validation', async () => {
+        const response = await fetch(`http://localhost:${HEADERS_EXPRESS_PORT}/api/tenant`, {
+            headers: { Authorization: 'Bearer token', 'X-Tenant-Id': '1', Cookie: 'session=a' }
+        });
+        expect(response.status).toBe(422);
+    });
+
+    test('should parse headers and cookies on Hono', async () => {
+        const response = await honoApp.request('/api/tenant', {
+            headers: { Authorization: 'Bearer token', 'X-Tenant-Id': '7', Cookie: 'session=hono-session' }
+        });
+        expect(response.status).toBe(200);
+        const body = await response.json() as any;
+        expect(body.data).toEqual({ tenantId: 7, ifMatch: null, session: 'hono-session', userAgent: null });
+    });
+
+    test('should respond 422 on Hono when a required header is missing', async () => {
+        const response = await honoApp.request('/api/tenant', {
+            headers: { 'X-Tenant-Id': '7', Cookie: 'session=hono-session' }
+        });
+        expect(response.status).toBe(422);
+    });
+
+    test('should document header and cookie parameters in the OpenAPI spec', () => {
+        const spec = generateOpenApiSpec(HeadersApiDefinition);
+        const parameters = spec.paths['/api/tenant'].get?.parameters ?? [];
+
+        expect(parameters).toEqual(expect.arrayContaining([
+            expect.objectContaining({ name: 'authorization', in: 'header', required: true }),
+            expect.objectContaining({ name: 'x-tenant-id', in: 'header', required: true }),
+            expect.objectContaining({ name: 'If-Match', in: 'header', required: false }),
+            expect.objectContaining({ name: 'session', in: 'cookie', required: true })
+        ]));
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { CreateApiDefinition, CreateResponses, RegisterHandlers, RegisterHonoHandlers } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const HonoSseApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        jobs: {
+            progress: {
+                method: 'GET',
+                path: '/jobs/progress',
+                sse: {
+                    progress: z.object({ percent: z.number() }),
+                    done: z.object({ ok: z.boolean() })
+                },
+                responses: CreateResponses({ 200: z.string() })
+            },
+            watch: {
+                method: 'GET',
+                path: '/jobs/watch',
+                responses: CreateResponses({ 200: z.string() })
+            }
+        }
+    }
+});
+
+// The progress handler waits for the test to release each step, so the test can observe what was flushed in between
+let releaseStep: () => void = () => undefined;
+const nextStep = () => new Promise<void>(resolve => { releaseStep = resolve; });
+let closedConnections = 0;
+
+const honoSseHandlers: ObjectHandlers<typeof HonoSseApiDefinition> = {
+    jobs: {
+        progress: async (req, res) => {
+            res.streamSSE('progress', { percent: 50 }, '1');
+            await nextStep();
+            res.streamSSE('progress', { percent: 100 }, '2');
+            res.streamSSE('done', { ok: true });
+            res.endStream();
+        },
+        watch: async (req, res) => {
+            // Never ends by itself; only a disconnect stops it
+            req.onClose?.(() => { closedConnections++; });
+            res.startSSE({ heartbeatMs: 10 });
+        }
+    }
+};
+
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+    const { value } = await reader.read();
+    return new TextDecoder().decode(value);
+}
+
+const HONO_SSE_EXPRESS_PORT = 3018;
+
+describe('Hono SSE streaming', () => {
+    const app = new Hono();
+    let server: Server;
+
+    beforeAll(async () => {
+        RegisterHonoHandlers(app, HonoSseApiDefinition, honoSseHandlers);
+
+        const expressApp = express();
+        RegisterHandlers(expressApp, HonoSseApiDefinition, honoSseHandlers);
+        await new Promise<void>(resolve => {
+            server = expressApp.listen(HONO_SSE_EXPRESS_PORT, () => resolve());
+        });
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test('should flush each event as soon as it is sent', async () => {
+        const response = await app.request('/api/jobs/progress');
+        expect(response.headers.get('content-type')).toBe('text/event-stream');
+        const reader = response.body!.getReader();
+
+        // The handler is still waiting, yet the first event has arrived
+        expect(await readChunk(reader)).toBe('event: progress\nid: 1\ndata: {"percent":50}\n\n');
+
+        releaseStep();
+        let rest = '';
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            rest += new TextDecoder().decode(chunk.value);
+        }
+        expect(rest).toBe('event: progress\nid: 2\ndata: {"percent":100}\n\nevent: done\ndata: {"ok":true}\n\n');
+    });
+
+    test('should send the same events as Express', async () => {
+        const readAll = async (response: Response) => {
+            const text = response.text();
+            // Let the handler finish once the first event is out
+            setTimeout(() => releaseStep(), 20);
+            return text;
+        };
+
+        const fromHono = await readAll(await app.request('/api/jobs/progress'));
+        const fromExpress = await readAll(await fetch(`http://localhost:${HONO_SSE_EXPRESS_PORT}/api/jobs/progress`));
+
+        expect(fromHono).toBe(fromExpress);
+    });
+
+    test('should send heartbeats and notice when the client cancels the stream', async () => {
+        closedConnections = 0;
+        const response = await app.request('/api/jobs/watch');
+        const reader = response.body!.getReader();
+
+        expect(await readChunk(reader)).toBe(': keep-alive\n\n');
+        expect(closedConnections).toBe(0);
+
+        await reader.cancel();
+        expect(closedConnections).toBe(1);
+    });
+
+    test('should call onClose when the request signal aborts', async () => {
+        closedConnections = 0;
+        const controller = new AbortController();
+        const response = await app.request(new Request('http://localhost/api/jobs/watch', { signal: controller.signal }));
+        const reader = response.body!.getReader();
+        expect(await readChunk(reader)).toBe(': keep-alive\n\n');
+
+        controller.abort();
+
+        expect(closedConnections).toBe(1);
+        await reader.cancel();
+        expect(closedConnections).toBe(1);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ApiClient, RegisterHandlers, RegisterHonoHandlers, CreateApiDefinition, CreateResponses, ResponseWithHeaders, HttpError, createRouteError } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const HttpErrorApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        accounts: {
+            get: {
+                method: 'GET',
+                path: '/accounts/:id',
+                params: z.object({ id: z.string() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.string(), balance: z.number() }),
+                    404: z.object({ error: z.string() }),
+                    429: ResponseWithHeaders(z.object({ error: z.string() }), z.object({ 'Retry-After': z.number() }))
+                })
+            }
+        }
+    }
+});
+
+// Stands in for service code that has no access to res
+function loadAccount(id: string) {
+    if (id === 'missing') {
+        throw createRouteError(HttpErrorApiDefinition, 'accounts', 'get', 404, { error: `Account ${id} not found` });
+    }
+    if (id === 'throttled') {
+        throw createRouteError(HttpErrorApiDefinition, 'accounts', 'get', 429, { error: 'Slow down' }, { 'Retry-After': 5 });
+    }
+    if (id === 'undeclared') {
+        throw new HttpError(403, { error: 'Forbidden' });
+    }
+    if (id === 'invalid') {
+        throw new HttpError(404, { message: 'wrong shape' });
+    }
+    return { id, balance: 100 };
+}
+
+const httpErrorHandlers: ObjectHandlers<typeof HttpErrorApiDefinition> = {
+    accounts: {
+        get: async (req, res) => {
+            res.respond(200, loadAccount(req.params.id));
+        }
+    }
+};
+
+const HTTP_ERROR_EXPRESS_PORT = 3014;
+
+describe('Throwable HTTP errors', () => {
+    let server: Server;
+    const honoApp = new Hono();
+    const client = new ApiClient(`http://localhost:${HTTP_ERROR_EXPRESS_PORT}`, HttpErrorApiDefinition);
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        RegisterHandlers(app, HttpErrorApiDefinition, httpErrorHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(HTTP_ERROR_EXPRESS_PORT, () => resolve());
+        });
+
+        RegisterHonoHandlers(honoApp, HttpErrorApiDefinition, httpErrorHandlers);
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test('should send a thrown route error as a declared response on Express', async () => {
+        const result = await client.callApi('accounts', 'get', { params: { id: 'missing' } }, {
+            200: () => null,
+            404: ({ data }) => data.error,
+            429: () => null,
+            422: () => null
+        });
+        expect(result).toBe('Account missing not found');
+    });
+
+    test('should send headers of a thrown route error', async () => {
+        const retryAfter = await client.callApi('accounts', 'get', { params: { id: 'throttled' } }, {
+            200: () => null,
+            404: () => null,
+            429: ({ headers }) => headers['Retry-After'],
+            422: () => null
+        });
+        expect(retryAfter).toBe(5);
+    });
+
+    test('should respond 500 when a thrown error does not match the responses map on Express', async () => {
+        const undeclared = await fetch(`http://localhost:${HTTP_ERROR_EXPRESS_PORT}/api/accounts/undeclared`);
+        expect(undeclared.status).toBe(500);
+
+        const invalid = await fetch(`http://localhost:${HTTP_ERROR_EXPRESS_PORT}/api/accounts/invalid`);
+        expect(invalid.status).toBe(500);
+    });
+
+    test('should send thrown route errors on Hono', async () => {
+        const missing = await honoApp.request('/api/accounts/missing');
+        expect(missing.status).toBe(404);
+        expect(await missing.json()).toEqual({ data: { error: 'Account missing not found' } });
+
+        const throttled = await honoApp.request('/api/accounts/throttled');
+        expect(throttled.status).toBe(429);
+        expect(throttled.headers.get('retry-after')).toBe('5');
+
+        const undeclared = await honoApp.request('/api/accounts/undeclared');
+        expect(undeclared.status).toBe(500);
+    });
+});
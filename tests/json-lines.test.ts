@@ -0,0 +1,241 @@
+import { describe, test, expect, jest, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ApiCallError, ApiClient, createTestClient, createMockHandlers, CreateApiDefinition, CreateResponses, JsonLinesResponse, RegisterHandlers, RegisterHonoHandlers, ResponseValidationError, TimeoutError } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { generateOpenApiSpec } from '../src/openapi-self';
+
+const JsonLinesApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        orders: {
+            export: {
+                method: 'GET',
+                path: '/orders/export',
+                query: z.object({ count: z.coerce.number() }),
+                responses: CreateResponses({
+                    200: JsonLinesResponse(z.object({ id: z.number(), placedAt: z.iso.datetime() })),
+                    403: z.object({ error: z.string() })
+                })
+            },
+            recent: {
+                method: 'GET',
+                path: '/orders/recent',
+                responses: CreateResponses({
+                    200: JsonLinesResponse(z.object({ id: z.number(), placedAt: z.iso.datetime() }))
+                })
+            },
+            legacy: {
+                method: 'GET',
+                path: '/orders/legacy',
+                responses: CreateResponses({
+                    200: JsonLinesResponse(z.object({ id: z.number(), placedAt: z.iso.datetime() }))
+                })
+            }
+        }
+    }
+});
+
+// The export handler waits for the test to release it halfway, so the test can observe what was flushed before
+let releaseExport: () => void = () => undefined;
+let closedExports = 0;
+
+const jsonLinesHandlers: ObjectHandlers<typeof JsonLinesApiDefinition> = {
+    orders: {
+        export: async (req, res) => {
+            if (req.query.count < 0) {
+                res.respond(403, { error: 'Exports are disabled' });
+                return;
+            }
+            req.onClose?.(() => { closedExports++; });
+
+            const halfway = new Promise<void>(resolve => { releaseExport = resolve; });
+            for (let id = 1; id <= req.query.count; id++) {
+                if (id === Math.floor(req.query.count / 2) + 1) await halfway;
+                res.streamItem({ id, placedAt: '2030-01-01T00:00:00Z' });
+                await res.waitForSSEDrain();
+            }
+            res.endStream();
+        },
+        recent: async (req, res) => {
+            res.respond(200, [{ id: 1, placedAt: '2030-01-01T00:00:00Z' }, { id: 2, placedAt: '2030-01-02T00:00:00Z' }]);
+        },
+        legacy: async (req, res) => {
+            // An older server that does not follow the item schema
+            res.respondContentType(200, '{"id":1,"placedAt":"2030-01-01T00:00:00Z"}\n{"id":"two"}\n', 'application/x-ndjson');
+        }
+    }
+};
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+    const collected: T[] = [];
+    for await (const item of items) {
+        collected.push(item);
+    }
+    return collected;
+}
+
+const JSON_LINES_EXPRESS_PORT = 3020;
+
+describe('JSON lines responses', () => {
+    let server: Server;
+
+    beforeAll(async () => {
+        const app = express();
+        RegisterHandlers(app, JsonLinesApiDefinition, jsonLinesHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(JSON_LINES_EXPRESS_PORT, () => resolve());
+        });
+    });
+
+    afterAll(async () => {
+        if (server) {
+            // fetch reopens an idle connection after a cancelled download
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    test.each([
+        ['the in-memory test client', () => createTestClient(JsonLinesApiDefinition, jsonLinesHandlers)],
+        ['Express', () => new ApiClient(`http://localhost:${JSON_LINES_EXPRESS_PORT}`, JsonLinesApiDefinition)]
+    ])('should stream typed items from %s as they are sent', async (_name, createClient) => {
+        const client = createClient();
+        const iterator = client.streamItems('orders', 'export', { query: { count: 4 } })[Symbol.asyncIterator]();
+
+        // The handler is still waiting, yet the first half has arrived
+        expect((await iterator.next()).value).toEqual({ id: 1, placedAt: '2030-01-01T00:00:00Z' });
+        expect((await iterator.next()).value).toEqual({ id: 2, placedAt: '2030-01-01T00:00:00Z' });
+
+        releaseExport();
+        const rest: Array<{ id: number }> = [];
+        for (let item = await iterator.next(); !item.done; item = await iterator.next()) {
+            rest.push(item.value);
+        }
+        expect(rest.map(item => item.id)).toEqual([3, 4]);
+    });
+
+    test('should stream a ReadableStream of NDJSON from Hono', async () => {
+        const app = new Hono();
+        RegisterHonoHandlers(app, JsonLinesApiDefinition, jsonLinesHandlers);
+
+        const response = await app.request('/api/orders/export?count=2');
+        expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+        const reader = response.body!.getReader();
+        expect(new TextDecoder().decode((await reader.read()).value)).toBe('{"id":1,"placedAt":"2030-01-01T00:00:00Z"}\n');
+
+        releaseExport();
+        expect(await new Response(new ReadableStream({
+            async pull(controller) {
+                const chunk = await reader.read();
+                if (chunk.done) controller.close(); else controller.enqueue(chunk.value);
+            }
+        })).text()).toBe('{"id":2,"placedAt":"2030-01-01T00:00:00Z"}\n');
+    });
+
+    test('should collect the items into an array for callApi, from respond and from mock handlers', async () => {
+        const client = createTestClient(JsonLinesApiDefinition, jsonLinesHandlers);
+        const recent = await client.callApiResult('orders', 'recent');
+        expect(recent).toMatchObject({ status: 200, data: [{ id: 1 }, { id: 2 }] });
+
+        const mockClient = createTestClient(JsonLinesApiDefinition, createMockHandlers(JsonLinesApiDefinition));
+        const mocked = await mockClient.callApiResult('orders', 'recent', { validateResponse: true });
+        expect(mocked.status).toBe(200);
+        if (mocked.status === 200) {
+            expect(mocked.data.length).toBeGreaterThan(0);
+        }
+
+        const empty = await client.callApiResult('orders', 'export', { query: { count: 0 } });
+        expect(empty).toMatchObject({ status: 200, data: [] });
+    });
+
+    test('should validate items on both sides', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const client = createTestClient(JsonLinesApiDefinition, {
+            ...jsonLinesHandlers,
+            orders: {
+                ...jsonLinesHandlers.orders,
+                recent: async (req, res) => {
+                    res.streamItem({ id: 1, placedAt: '2030-01-01T00:00:00Z' });
+                    // @ts-expect-error - id must be a number
+                    res.streamItem({ id: 'two', placedAt: '2030-01-01T00:00:00Z' });
+                    res.endStream();
+                }
+            }
+        });
+
+        try {
+            expect(await collect(client.streamItems('orders', 'recent'))).toEqual([{ id: 1, placedAt: '2030-01-01T00:00:00Z' }]);
+            expect(String(consoleError.mock.calls[0][0])).toBe('FATAL: Stream item failed Zod validation in route orders/recent; the item was not sent.');
+        } finally {
+            consoleError.mockRestore();
+        }
+
+        // Without validation the client passes lines through as they are
+        expect(await collect(client.streamItems('orders', 'legacy'))).toEqual([{ id: 1, placedAt: '2030-01-01T00:00:00Z' }, { id: 'two' }]);
+
+        const error = await collect(client.streamItems('orders', 'legacy', { validateResponse: true })).catch(e => e);
+        expect(error).toBeInstanceOf(ResponseValidationError);
+        expect(error.data).toEqual({ id: 'two' });
+    });
+
+    test('should fail with an ApiCallError for statuses that are not item streams', async () => {
+        const client = createTestClient(JsonLinesApiDefinition, jsonLinesHandlers);
+
+        const error = await collect(client.streamItems('orders', 'export', { query: { count: -1 } })).catch(e => e);
+
+        expect(error).toBeInstanceOf(ApiCallError);
+        expect(error.status).toBe(403);
+        expect(error.result.data).toEqual({ error: 'Exports are disabled' });
+    });
+
+    test('should apply the timeout only until the stream starts', async () => {
+        const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        let delayFirst = false;
+        const client = createTestClient(JsonLinesApiDefinition, {
+            ...jsonLinesHandlers,
+            orders: {
+                ...jsonLinesHandlers.orders,
+                recent: async (req, res) => {
+                    if (delayFirst) await wait(80);
+                    res.streamItem({ id: 1, placedAt: '2030-01-01T00:00:00Z' });
+                    await wait(80);
+                    res.streamItem({ id: 2, placedAt: '2030-01-02T00:00:00Z' });
+                    res.endStream();
+                }
+            }
+        });
+        client.setDefaultTimeout(30);
+
+        const items = await collect(client.streamItems('orders', 'recent'));
+        expect(items.map(item => item.id)).toEqual([1, 2]);
+
+        delayFirst = true;
+        const error = await collect(client.streamItems('orders', 'recent', { timeoutMs: 20 })).catch(e => e);
+        expect(error).toBeInstanceOf(TimeoutError);
+    });
+
+    test('should cancel the request when iteration stops early', async () => {
+        closedExports = 0;
+        const client = new ApiClient(`http://localhost:${JSON_LINES_EXPRESS_PORT}`, JsonLinesApiDefinition);
+
+        for await (const item of client.streamItems('orders', 'export', { query: { count: 10 } })) {
+            expect(item.id).toBe(1);
+            break;
+        }
+        releaseExport();
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(closedExports).toBe(1);
+    });
+
+    test('should document item streams as NDJSON in OpenAPI', () => {
+        const spec = generateOpenApiSpec(JsonLinesApiDefinition);
+
+        expect(spec.paths['/api/orders/recent'].get?.responses['200'].content).toEqual({
+            'application/x-ndjson': { schema: { $ref: expect.stringMatching(/^#\/components\/schemas\//) } }
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { createLambdaHandler, CreateApiDefinition, CreateResponses, ApiGatewayProxyEventV1, ApiGatewayProxyEventV2 } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const LambdaApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        notes: {
+            get: {
+                method: 'GET',
+                path: '/notes/:id',
+                params: z.object({ id: z.number().int() }),
+                query: z.object({ verbose: z.boolean().optional() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), verbose: z.boolean(), ip: z.string().nullable() })
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/notes',
+                body: z.object({ text: z.string().min(1) }),
+                responses: CreateResponses({
+                    201: z.object({ text: z.string(), session: z.string().nullable() })
+                })
+            },
+            download: {
+                method: 'GET',
+                path: '/notes/download',
+                responses: CreateResponses({
+                    200: z.any()
+                })
+            }
+        },
+        files: {
+            upload: {
+                method: 'POST',
+                path: '/upload',
+                body: z.object({ description: z.string().optional() }),
+                fileUpload: {
+                    single: { fieldName: 'file', maxSize: 1024, allowedMimeTypes: ['text/plain'] }
+                },
+                responses: CreateResponses({
+                    200: z.object({ originalName: z.string(), size: z.number(), description: z.string().nullable() })
+                })
+            }
+        }
+    }
+});
+
+const lambdaHandlers: ObjectHandlers<typeof LambdaApiDefinition> = {
+    notes: {
+        get: async (req, res) => {
+            res.respond(200, { id: req.params.id, verbose: req.query.verbose ?? false, ip: req.ip ?? null });
+        },
+        create: async (req, res) => {
+            res.setHeader('Set-Cookie', 'created=1');
+            res.respond(201, { text: req.body.text, session: req.cookies.session ?? null });
+        },
+        download: async (req, res) => {
+            res.respondContentType(200, new Uint8Array([0, 1, 2, 255]), 'application/octet-stream');
+        }
+    },
+    files: {
+        upload: async (req, res) => {
+            const file = (req as any).file;
+            res.respond(200, { originalName: file.originalname, size: file.size, description: req.body.description ?? null });
+        }
+    }
+};
+
+function loadFixture<T>(name: string): T {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'lambda', name), 'utf8'));
+}
+
+describe('AWS Lambda adapter', () => {
+    const handler = createLambdaHandler(LambdaApiDefinition, lambdaHandlers);
+
+    test('should route REST API (v1) events with multi-value query parameters', async () => {
+        const result = await handler(loadFixture<ApiGatewayProxyEventV1>('rest-api-v1-get.json'));
+
+        expect(result.statusCode).toBe(200);
+        expect(result.isBase64Encoded).toBe(false);
+        expect(JSON.parse(result.body)).toEqual({ data: { id: 5, verbose: true, ip: '203.0.113.10' } });
+    });
+
+    test('should decode base64 bodies', async () => {
+        const result = await handler(loadFixture<ApiGatewayProxyEventV1>('rest-api-v1-post-base64.json'));
+
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body)).toEqual({ data: { text: 'hello', session: null } });
+        expect(result.multiValueHeaders).toEqual({ 'set-cookie': ['created=1'] });
+    });
+
+    test('should route HTTP API (v2) events with cookies and a base path', async () => {
+        const stagedHandler = createLambdaHandler(LambdaApiDefinition, lambdaHandlers, { basePath: '/prod' });
+        const result = await stagedHandler(loadFixture<ApiGatewayProxyEventV2>('http-api-v2-post.json'));
+
+        expect(result.statusCode).toBe(201);
+        expect(JSON.parse(result.body)).toEqual({ data: { text: 'from v2', session: 'abc' } });
+        expect(result.cookies).toEqual(['created=1']);
+    });
+
+    test('should strip the base path only as whole path segments', async () => {
+        const event = loadFixture<ApiGatewayProxyEventV1>('rest-api-v1-get.json');
+
+        const unrelated = await createLambdaHandler(LambdaApiDefinition, lambdaHandlers, { basePath: '/ap' })({ ...event, path: '/api/notes/5' });
+        expect(unrelated.statusCode).toBe(200);
+
+        const staged = await createLambdaHandler(LambdaApiDefinition, lambdaHandlers, { basePath: '/prod' })({ ...event, path: '/prod/api/notes/5' });
+        expect(staged.statusCode).toBe(200);
+    });
+
+    test('should parse base64 multipart uploads honouring the FileUploadConfig', async () => {
+        const result = await handler(loadFixture<ApiGatewayProxyEventV2>('http-api-v2-upload.json'));
+
+        expect(result.statusCode).toBe(200);
+        expect(JSON.parse(result.body)).toEqual({ data: { originalName: 'hello.txt', size: 5, description: 'notes' } });
+    });
+
+    test('should return 422 for invalid requests and 404 for unknown routes', async () => {
+        const event = loadFixture<ApiGatewayProxyEventV1>('rest-api-v1-get.json');
+
+        const invalid = await handler({ ...event, path: '/api/notes/abc' });
+        expect(invalid.statusCode).toBe(422);
+
+        const missing = await handler({ ...event, path: '/api/missing' });
+        expect(missing.statusCode).toBe(404);
+    });
+
+    test('should base64 encode binary responses', async () => {
+        const event = loadFixture<ApiGatewayProxyEventV1>('rest-api-v1-get.json');
+        const result = await handler({ ...event, path: '/api/notes/download', multiValueQueryStringParameters: null, queryStringParameters: null });
+
+        expect(result.isBase64Encoded).toBe(true);
+        expect(Buffer.from(result.body, 'base64')).toEqual(Buffer.from([0, 1, 2, 255]));
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect } from '@jest/globals';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createMockHandlers, generateMockData, createTestClient, RegisterHonoHandlers, CreateApiDefinition, CreateResponses, ResponseWithHeaders } from '../src';
+import { PublicApiDefinition, PrivateApiDefinition } from '../examples/advanced/definitions';
+
+const MockApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        users: {
+            get: {
+                method: 'GET',
+                path: '/users/:id',
+                params: z.object({ id: z.uuid() }),
+                responses: CreateResponses({
+                    200: z.object({
+                        id: z.uuid(),
+                        email: z.email(),
+                        name: z.string().min(3).max(12),
+                        role: z.enum(['admin', 'member']),
+                        age: z.number().int().min(18).max(99),
+                        nickname: z.string().nullable(),
+                        tags: z.array(z.string()).min(1).max(2),
+                        createdAt: z.iso.datetime()
+                    }),
+                    404: z.object({ error: z.string() })
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/users',
+                body: z.object({ name: z.string() }),
+                responses: CreateResponses({
+                    201: ResponseWithHeaders(z.object({ id: z.uuid() }), z.object({ Location: z.string().startsWith('/api/users/') })),
+                    422: z.object({ error: z.string() })
+                })
+            },
+            remove: {
+                method: 'DELETE',
+                path: '/users/:id',
+                params: z.object({ id: z.uuid() }),
+                responses: CreateResponses({
+                    204: z.null()
+                })
+            }
+        }
+    }
+});
+
+const USER_ID = '3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60';
+
+const getUser = (client: ReturnType<typeof createTestClient<typeof MockApiDefinition>>) =>
+    client.callApi('users', 'get', { params: { id: USER_ID } }, {
+        200: ({ data }) => data,
+        404: () => null,
+        422: ({ error }) => { throw new Error(JSON.stringify(error)); }
+    });
+
+describe('Mock handlers', () => {
+    test('should generate data matching the success response schema', async () => {
+        const client = createTestClient(MockApiDefinition, createMockHandlers(MockApiDefinition));
+
+        const user = await getUser(client);
+
+        expect(user).not.toBeNull();
+        expect(['admin', 'member']).toContain(user!.role);
+        expect(user!.age).toBeGreaterThanOrEqual(18);
+        expect(user!.tags.length).toBeGreaterThanOrEqual(1);
+        expect(user!.tags.length).toBeLessThanOrEqual(2);
+    });
+
+    test('should be deterministic for a seed', async () => {
+        const first = createTestClient(MockApiDefinition, createMockHandlers(MockApiDefinition, { seed: 42 }));
+        const second = createTestClient(MockApiDefinition, createMockHandlers(MockApiDefinition, { seed: 42 }));
+        const other = createTestClient(MockApiDefinition, createMockHandlers(MockApiDefinition, { seed: 7 }));
+
+        const user = await getUser(first);
+        expect(await getUser(first)).toEqual(user);
+        expect(await getUser(second)).toEqual(user);
+        expect(await getUser(other)).not.toEqual(user);
+    });
+
+    test('should generate declared response headers and handle no-body statuses', async () => {
+        const client = createTestClient(MockApiDefinition, createMockHandlers(MockApiDefinition));
+
+        const location = await client.callApi('users', 'create', { body: { name: 'Ada' } }, {
+            201: ({ headers }) => headers.Location,
+            422: () => null
+        });
+        expect(location).toMatch(/^\/api\/users\//);
+
+        const removed = await client.callApi('users', 'remove', { params: { id: USER_ID } }, {
+            204: ({ data }) => data,
+            422: () => 'invalid'
+        });
+        expect(removed).toBeNull();
+    });
+
+    test('should use per-route overrides', async () => {
+        const handlers = createMockHandlers(MockApiDefinition, {
+            overrides: {
+                users: {
+                    get: async (req, res) => {
+                        res.respond(404, { error: 'User not found' });
+                    }
+                }
+            }
+        });
+
+        const honoApp = new Hono();
+        RegisterHonoHandlers(honoApp, MockApiDefinition, handlers);
+
+        const response = await honoApp.request(`/api/users/${USER_ID}`);
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ data: { error: 'User not found' } });
+    });
+
+    test.each([
+        ['public', PublicApiDefinition],
+        ['private', PrivateApiDefinition]
+    ])('should produce valid responses for every route of the advanced %s example', async (_name, definition) => {
+        const handlers: any = createMockHandlers(definition as any);
+
+        for (const [domain, routes] of Object.entries(definition.endpoints)) {
+            for (const [routeKey, route] of Object.entries(routes as Record<string, any>)) {
+                let sent: { status: number; data: unknown } | undefined;
+                await handlers[domain][routeKey]({}, { respond: (status: number, data: unknown) => { sent = { status, data }; } });
+
+                expect(sent).toBeDefined();
+                expect(route.responses[sent!.status].safeParse({ data: sent!.data }).success).toBe(true);
+            }
+        }
+    });
+
+    test('should report schemas it cannot satisfy', () => {
+        expect(() => generateMockData(z.string().regex(/^[0-9]{6}$/))).toThrow('Could not generate mock data');
+    });
+});
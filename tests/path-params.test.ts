@@ -0,0 +1,150 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { ApiClient, CreateApiDefinition, CreateResponses } from '../src';
+import { extractPathParams, RouteSchema } from '../src/definition';
+import { generateOpenApiSpec } from '../src/openapi-self';
+
+const PathParamsApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        posts: {
+            get: {
+                method: 'GET',
+                path: '/users/:userId/posts/:postId',
+                params: z.object({ userId: z.string(), postId: z.number() }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            optional: {
+                method: 'GET',
+                path: '/users/:userId/posts/:postId?',
+                params: z.object({ userId: z.string(), postId: z.number().optional() }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            numeric: {
+                method: 'GET',
+                path: '/posts/:postId{[0-9]+}',
+                params: z.object({ postId: z.number() }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            grouped: {
+                method: 'GET',
+                path: '/users{/:userId}',
+                params: z.object({ userId: z.string().optional() }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            wildcard: {
+                method: 'GET',
+                path: '/files/*filePath',
+                params: z.object({ filePath: z.array(z.string()) }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            extension: {
+                method: 'GET',
+                path: '/files/:name{.:ext}',
+                params: z.object({ name: z.string(), ext: z.string().optional() }),
+                responses: CreateResponses({ 200: z.object({ id: z.number() }) })
+            },
+            list: {
+                method: 'GET',
+                path: '/posts',
+                query: z.object({ page: z.number().optional() }),
+                responses: CreateResponses({ 200: z.array(z.object({ id: z.number() })) })
+            }
+        }
+    }
+});
+
+// Paths built at runtime are plain strings, so only the runtime assertion can catch these
+const dynamicRoute = (path: string, params?: RouteSchema['params']) => ({
+    endpoints: {
+        users: {
+            get: { method: 'GET' as const, path, params, responses: CreateResponses({ 200: z.string() }) }
+        }
+    }
+});
+
+describe('Path placeholders and params', () => {
+    const client = new ApiClient('http://localhost:3000', PathParamsApiDefinition);
+
+    test('should extract placeholder names from a path', () => {
+        expect(extractPathParams('/users/:userId/posts/:postId')).toEqual(['userId', 'postId']);
+        expect(extractPathParams('/posts')).toEqual([]);
+    });
+
+    test('should leave optional markers and regex constraints out of placeholder names', () => {
+        expect(extractPathParams('/users/:id?')).toEqual(['id']);
+        expect(extractPathParams('/users/:id{[0-9]+}/posts/:slug{[a-z-]+}?')).toEqual(['id', 'slug']);
+        expect(() => CreateApiDefinition(dynamicRoute('/users/:id?', z.object({ id: z.string().optional() })))).not.toThrow();
+        expect(() => CreateApiDefinition(dynamicRoute('/users/:id{[0-9]+}', z.object({ id: z.number() })))).not.toThrow();
+    });
+
+    test('should read Express 5 optional groups and named wildcards', () => {
+        expect(extractPathParams('/users{/:id}')).toEqual(['id']);
+        expect(extractPathParams('/files/*path')).toEqual(['path']);
+        expect(extractPathParams('/files/:name{.:ext}')).toEqual(['name', 'ext']);
+        expect(extractPathParams('/flights/:from-:to')).toEqual(['from', 'to']);
+        expect(extractPathParams('/files/*')).toEqual([]);
+        expect(() => CreateApiDefinition(dynamicRoute('/users{/:id}', z.object({ id: z.string().optional() })))).not.toThrow();
+        expect(() => CreateApiDefinition(dynamicRoute('/files/*path', z.object({ path: z.array(z.string()) })))).not.toThrow();
+        expect(() => CreateApiDefinition(dynamicRoute('/files/:name{.:ext}', z.object({ name: z.string() }))))
+            .toThrow('path placeholder(s) ":ext" in "/files/:name{.:ext}" have no matching key in params.');
+    });
+
+    test('should document Express 5 paths with OpenAPI placeholders', () => {
+        const paths = Object.keys(generateOpenApiSpec(PathParamsApiDefinition).paths);
+        expect(paths).toEqual(expect.arrayContaining([
+            '/api/users/{userId}/posts/{postId}',
+            '/api/posts/{postId}',
+            '/api/users/{userId}',
+            '/api/files/{filePath}',
+            '/api/files/{name}.{ext}'
+        ]));
+    });
+
+    test('should reject a placeholder without a matching params key', () => {
+        expect(() => CreateApiDefinition(dynamicRoute('/users/:id', z.object({ userId: z.string() }))))
+            .toThrow('Route users.get: path placeholder(s) ":id" in "/users/:id" have no matching key in params.');
+        expect(() => CreateApiDefinition(dynamicRoute('/users/:id')))
+            .toThrow('have no matching key in params');
+    });
+
+    test('should reject a params key without a matching placeholder', () => {
+        expect(() => CreateApiDefinition(dynamicRoute('/users', z.object({ id: z.string() }))))
+            .toThrow('Route users.get: params key(s) "id" have no matching placeholder in path "/users".');
+    });
+
+    test('should accept matching placeholders and params', () => {
+        expect(() => CreateApiDefinition(dynamicRoute('/users/:id', z.object({ id: z.string() })))).not.toThrow();
+    });
+
+    test('should generate URLs with every placeholder replaced', () => {
+        expect(client.generateUrl('posts', 'get', { userId: 'u1', postId: 7 }))
+            .toBe('http://localhost:3000/api/users/u1/posts/7');
+        expect(client.generateUrl('posts', 'list', undefined, { page: 2 }))
+            .toBe('http://localhost:3000/api/posts?page=2');
+    });
+
+    test('should generate URLs for optional and constrained placeholders', () => {
+        expect(client.generateUrl('posts', 'optional', { userId: 'u1', postId: 7 }))
+            .toBe('http://localhost:3000/api/users/u1/posts/7');
+        expect(client.generateUrl('posts', 'optional', { userId: 'u1' }))
+            .toBe('http://localhost:3000/api/users/u1/posts');
+        expect(client.generateUrl('posts', 'numeric', { postId: 7 }))
+            .toBe('http://localhost:3000/api/posts/7');
+    });
+
+    test('should generate URLs for Express 5 groups and wildcards', () => {
+        expect(client.generateUrl('posts', 'grouped', { userId: 'u1' })).toBe('http://localhost:3000/api/users/u1');
+        expect(client.generateUrl('posts', 'grouped', {})).toBe('http://localhost:3000/api/users');
+        expect(client.generateUrl('posts', 'wildcard', { filePath: ['docs', 'report.pdf'] }))
+            .toBe('http://localhost:3000/api/files/docs/report.pdf');
+        expect(client.generateUrl('posts', 'extension', { name: 'report', ext: 'pdf' })).toBe('http://localhost:3000/api/files/report.pdf');
+        expect(client.generateUrl('posts', 'extension', { name: 'report' })).toBe('http://localhost:3000/api/files/report');
+    });
+
+    test('should throw instead of sending a literal placeholder', () => {
+        const params = { userId: 'u1' } as unknown as { userId: string; postId: number };
+        expect(() => client.generateUrl('posts', 'get', params))
+            .toThrow('Missing value for path parameter "postId" in "/users/:userId/posts/:postId".');
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ApiClient, RegisterHandlers, RegisterHonoHandlers, CreateApiDefinition, CreateResponses, ResponseWithHeaders } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { generateOpenApiSpec } from '../src/openapi-self';
+import { generateOpenApiSpec as generateZodOpenApiSpec } from '../src/openapi';
+
+const ResponseHeadersApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        items: {
+            list: {
+                method: 'GET',
+                path: '/items',
+                query: z.object({ broken: z.boolean().optional() }),
+                responses: CreateResponses({
+                    200: ResponseWithHeaders(
+                        z.array(z.string()),
+                        z.object({ 'X-Total-Count': z.number().int(), 'X-Next-Cursor': z.string().optional() })
+                    )
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/items',
+                body: z.object({ name: z.string() }),
+                responses: CreateResponses({
+                    201: ResponseWithHeaders(z.object({ id: z.string() }), z.object({ Location: z.string() })),
+                    409: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+const responseHeadersHandlers: ObjectHandlers<typeof ResponseHeadersApiDefinition> = {
+    items: {
+        list: async (req, res) => {
+            if (req.query.broken) {
+                // Deliberately violate the header contract at runtime
+                res.respond(200, ['a'], { 'X-Total-Count': 'many' as unknown as number });
+                return;
+            }
+            res.respond(200, ['a', 'b'], { 'X-Total-Count': 2 });
+        },
+        create: async (req, res) => {
+            if (req.body.name === 'taken') {
+                res.respond(409, { error: 'Name taken' });
+                return;
+            }
+            res.respond(201, { id: 'item-1' }, { Location: '/api/items/item-1' });
+        }
+    }
+};
+
+const RESPONSE_HEADERS_EXPRESS_PORT = 3012;
+
+describe('Per-status response headers', () => {
+    let server: Server;
+    const honoApp = new Hono();
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        RegisterHandlers(app, ResponseHeadersApiDefinition, responseHeadersHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(RESPONSE_HEADERS_EXPRESS_PORT, () => resolve());
+        });
+
+        RegisterHonoHandlers(honoApp, ResponseHeadersApiDefinition, responseHeadersHandlers);
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test('should expose typed response headers on the client result', async () => {
+        const client = new ApiClient(`http://localhost:${RESPONSE_HEADERS_EXPRESS_PORT}`, ResponseHeadersApiDefinition);
+
+        const total = await client.callApi('items', 'list', {}, {
+            200: ({ data, headers }) => {
+                expect(data).toEqual(['a', 'b']);
+                return headers['X-Total-Count'];
+            },
+            422: ({ error }) => {
+                throw new Error(`Validation error: ${JSON.stringify(error)}`);
+            }
+        });
+        expect(total).toBe(2);
+
+        const location = await client.callApi('items', 'create', { body: { name: 'new' } }, {
+            201: ({ headers }) => headers.Location,
+            409: ({ data }) => data.error,
+            422: ({ error }) => {
+                throw new Error(`Validation error: ${JSON.stringify(error)}`);
+            }
+        });
+        expect(location).toBe('/api/items/item-1');
+    });
+
+    test('should respond 500 when response headers violate their schema', async () => {
+        const response = await fetch(`http://localhost:${RESPONSE_HEADERS_EXPRESS_PORT}/api/items?broken=true`);
+        expect(response.status).toBe(500);
+    });
+
+    test('should set declared response headers on Hono', async () => {
+        const response = await honoApp.request('/api/items', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'new' })
+        });
+        expect(response.status).toBe(201);
+        expect(response.headers.get('location')).toBe('/api/items/item-1');
+
+        const brokenResponse = await honoApp.request('/api/items?broken=true');
+        expect(brokenResponse.status).toBe(500);
+    });
+
+    test('should document response headers in both OpenAPI generators', () => {
+        const spec = generateOpenApiSpec(ResponseHeadersApiDefinition);
+        expect(spec.paths['/api/items'].get?.responses['200'].headers).toEqual({
+            'X-Total-Count': { required: true, schema: { type: 'number' } },
+            'X-Next-Cursor': { required: false, schema: { type: 'string' } }
+        });
+        expect(spec.paths['/api/items'].post?.responses['201'].headers?.Location.required).toBe(true);
+        expect(spec.paths['/api/items'].post?.responses['409'].headers).toBeUndefined();
+
+        const zodSpec = generateZodOpenApiSpec(ResponseHeadersApiDefinition) as any;
+        expect(Object.keys(zodSpec.paths['/api/items'].post.responses['201'].headers)).toEqual(['Location']);
+    });
+});
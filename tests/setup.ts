@@ -206,7 +206,7 @@ const advancedPrivateHandlers = {
 };
 
 // Shared file upload API definition and handlers
-const FileUploadApiDefinition = CreateApiDefinition({
+export const FileUploadApiDefinition = CreateApiDefinition({
     prefix: '/api',
     endpoints: {
         files: {
@@ -0,0 +1,152 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ApiClient, RegisterHandlers, RegisterHonoHandlers, CreateApiDefinition, CreateResponses, ResponseWithHeaders, Redirect } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+import { generateOpenApiSpec } from '../src/openapi-self';
+
+const StatusCodesApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        documents: {
+            get: {
+                method: 'GET',
+                path: '/documents/:id',
+                params: z.object({ id: z.string() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.string() }),
+                    301: Redirect(z.string().startsWith('/api/')),
+                    410: z.object({ reason: z.string() }),
+                    429: ResponseWithHeaders(z.object({ error: z.string() }), z.object({ 'Retry-After': z.number() })),
+                    503: z.object({ error: z.string() }),
+                    599: z.object({ custom: z.boolean() })
+                })
+            },
+            reset: {
+                method: 'POST',
+                path: '/documents/reset',
+                responses: CreateResponses({
+                    205: z.null(),
+                    412: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+const statusCodesHandlers: ObjectHandlers<typeof StatusCodesApiDefinition> = {
+    documents: {
+        get: async (req, res) => {
+            switch (req.params.id) {
+                case 'moved': return res.respond(301, null, { Location: '/api/documents/new-id' });
+                case 'gone': return res.respond(410, { reason: 'deleted' });
+                case 'busy': return res.respond(429, { error: 'slow down' }, { 'Retry-After': 30 });
+                case 'down': return res.respond(503, { error: 'maintenance' });
+                case 'custom': return res.respond(599, { custom: true });
+                default: return res.respond(200, { id: req.params.id });
+            }
+        },
+        reset: async (req, res) => {
+            res.respond(205, null);
+        }
+    }
+};
+
+const STATUS_CODES_EXPRESS_PORT = 3013;
+
+describe('Extended status codes', () => {
+    let server: Server;
+    const honoApp = new Hono();
+    const client = new ApiClient(`http://localhost:${STATUS_CODES_EXPRESS_PORT}`, StatusCodesApiDefinition);
+
+    const getDocument = (id: string) => client.callApi('documents', 'get', { params: { id } }, {
+        200: ({ data }) => ({ kind: 'ok', value: data.id }),
+        301: ({ headers }) => ({ kind: 'redirect', value: headers.Location }),
+        410: ({ data }) => ({ kind: 'gone', value: data.reason }),
+        429: ({ headers }) => ({ kind: 'rate-limited', value: headers['Retry-After'] }),
+        503: ({ data }) => ({ kind: 'unavailable', value: data.error }),
+        599: ({ data }) => ({ kind: 'custom', value: data.custom }),
+        422: ({ error }) => ({ kind: 'invalid', value: error })
+    });
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        RegisterHandlers(app, StatusCodesApiDefinition, statusCodesHandlers);
+        await new Promise<void>(resolve => {
+            server = app.listen(STATUS_CODES_EXPRESS_PORT, () => resolve());
+        });
+
+        RegisterHonoHandlers(honoApp, StatusCodesApiDefinition, statusCodesHandlers);
+    });
+
+    afterAll(async () => {
+        if (server) {
+            server.close();
+        }
+    });
+
+    test('should round-trip 410, 429, 503 and custom statuses through the client', async () => {
+        expect(await getDocument('gone')).toEqual({ kind: 'gone', value: 'deleted' });
+        expect(await getDocument('busy')).toEqual({ kind: 'rate-limited', value: 30 });
+        expect(await getDocument('down')).toEqual({ kind: 'unavailable', value: 'maintenance' });
+        expect(await getDocument('custom')).toEqual({ kind: 'custom', value: true });
+    });
+
+    test('should surface a declared redirect with its typed Location instead of following it', async () => {
+        expect(await getDocument('moved')).toEqual({ kind: 'redirect', value: '/api/documents/new-id' });
+    });
+
+    test('should follow a redirect when asked to', async () => {
+        const result = await client.callApi('documents', 'get', { params: { id: 'moved' }, redirect: 'follow' }, {
+            200: ({ data }) => data.id,
+            301: () => 'not followed',
+            410: () => null,
+            429: () => null,
+            503: () => null,
+            599: () => null,
+            422: () => null
+        });
+        expect(result).toBe('new-id');
+    });
+
+    test('should send 205 without a body on both adapters', async () => {
+        const result = await client.callApi('documents', 'reset', {}, {
+            205: ({ data }) => data,
+            412: () => 'precondition failed',
+            422: () => 'invalid'
+        });
+        expect(result).toBeNull();
+
+        const honoResponse = await honoApp.request('/api/documents/reset', { method: 'POST' });
+        expect(honoResponse.status).toBe(205);
+        expect(await honoResponse.text()).toBe('');
+    });
+
+    test('should send redirects with a Location header on Hono', async () => {
+        const response = await honoApp.request('/api/documents/moved');
+        expect(response.status).toBe(301);
+        expect(response.headers.get('location')).toBe('/api/documents/new-id');
+    });
+
+    test('should reject status codes outside the final HTTP range', () => {
+        expect(() => CreateResponses({ 199: z.string() })).toThrow('Invalid response status code');
+        expect(() => CreateResponses({ 600: z.string() })).toThrow('Invalid response status code');
+    });
+
+    test('should document extended statuses in the OpenAPI spec', () => {
+        const spec = generateOpenApiSpec(StatusCodesApiDefinition);
+        const responses = spec.paths['/api/documents/{id}'].get!.responses;
+
+        expect(responses['301']).toEqual({
+            description: 'Moved Permanently',
+            headers: { Location: { required: true, schema: { type: 'string' } } }
+        });
+        expect(responses['410'].description).toBe('Gone');
+        expect(responses['429'].description).toBe('Too Many Requests');
+        expect(responses['599'].description).toBe('HTTP 599');
+        expect(spec.paths['/api/documents/reset'].post!.responses['205'].content).toBeUndefined();
+    });
+});
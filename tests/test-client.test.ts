@@ -0,0 +1,115 @@
+import { describe, test, expect } from '@jest/globals';
+import { z } from 'zod';
+import { createTestClient, CreateApiDefinition, CreateResponses, Redirect, EndpointMiddleware } from '../src';
+import { ObjectHandlers } from '../src/object-handlers';
+
+const TestClientApiDefinition = CreateApiDefinition({
+    prefix: '/api',
+    endpoints: {
+        users: {
+            get: {
+                method: 'GET',
+                path: '/users/:id',
+                params: z.object({ id: z.number().int() }),
+                responses: CreateResponses({
+                    200: z.object({ id: z.number(), name: z.string(), requestedBy: z.string() }),
+                    301: Redirect(),
+                    401: z.object({ error: z.string() }),
+                    404: z.object({ error: z.string() })
+                })
+            },
+            create: {
+                method: 'POST',
+                path: '/users',
+                body: z.object({ name: z.string().min(2) }),
+                responses: CreateResponses({
+                    201: z.object({ id: z.number(), name: z.string() }),
+                    401: z.object({ error: z.string() })
+                })
+            }
+        }
+    }
+});
+
+const users = new Map([[1, 'Ada'], [2, 'Grace']]);
+
+const testClientHandlers: ObjectHandlers<typeof TestClientApiDefinition, { user: string }> = {
+    users: {
+        get: async (req, res) => {
+            // User 100 was merged into user 1
+            if (req.params.id === 100) {
+                return res.respond(301, null, { Location: '/api/users/1' });
+            }
+            const name = users.get(req.params.id);
+            if (!name) {
+                return res.respond(404, { error: 'User not found' });
+            }
+            res.respond(200, { id: req.params.id, name, requestedBy: req.ctx?.user ?? 'unknown' });
+        },
+        create: async (req, res) => {
+            res.respond(201, { id: 3, name: req.body.name });
+        }
+    }
+};
+
+const authMiddleware: EndpointMiddleware<typeof TestClientApiDefinition> = async (req, res, next) => {
+    const token = req.headers['authorization'];
+    if (token !== 'Bearer test-token') {
+        res.respond(401, { error: 'Unauthorized' });
+        return;
+    }
+    (req as any).ctx = { user: 'tester' };
+    await next();
+};
+
+describe('In-memory test client', () => {
+    const client = createTestClient(TestClientApiDefinition, testClientHandlers, [authMiddleware]);
+    client.setHeader('Authorization', 'Bearer test-token');
+
+    test('should call handlers in-process through middlewares', async () => {
+        const result = await client.callApi('users', 'get', { params: { id: 1 } }, {
+            200: ({ data }) => data,
+            301: () => { throw new Error('Unexpected redirect'); },
+            401: ({ data }) => { throw new Error(data.error); },
+            404: ({ data }) => { throw new Error(data.error); },
+            422: ({ error }) => { throw new Error(JSON.stringify(error)); }
+        });
+
+        expect(result).toEqual({ id: 1, name: 'Ada', requestedBy: 'tester' });
+    });
+
+    test('should validate requests with 422 responses', async () => {
+        const result = await client.callApi('users', 'create', { body: { name: 'A' } }, {
+            201: () => 'created',
+            401: () => 'unauthorized',
+            422: ({ error }) => error?.[0].field
+        });
+
+        expect(result).toBe('name');
+    });
+
+    test('should surface middleware responses', async () => {
+        const anonymous = createTestClient(TestClientApiDefinition, testClientHandlers, [authMiddleware]);
+
+        const result = await anonymous.callApi('users', 'create', { body: { name: 'Alan' } }, {
+            201: () => 'created',
+            401: ({ data }) => data.error,
+            422: () => 'invalid'
+        });
+
+        expect(result).toBe('Unauthorized');
+    });
+
+    test('should follow redirects unless asked not to', async () => {
+        const handlers = {
+            200: ({ data }: { data: { name: string } }) => data.name,
+            301: ({ headers }: { headers: { Location: string } }) => `moved to ${headers.Location}`,
+            401: () => 'unauthorized',
+            404: () => 'missing',
+            422: () => 'invalid'
+        };
+
+        expect(await client.callApi('users', 'get', { params: { id: 100 }, redirect: 'follow' }, handlers)).toBe('Ada');
+        expect(await client.callApi('users', 'get', { params: { id: 100 } }, handlers)).toBe('moved to /api/users/1');
+    });
+});